@@ -1,29 +1,13 @@
 // @ts-check
 import { defineConfig } from 'astro/config';
-import sitemap from '@astrojs/sitemap';
+import incrementalBuild from './src/integrations/incrementalBuild';
 
 // https://astro.build/config
+// Sitemaps are generated by src/pages/sitemap-index.xml.ts (not @astrojs/sitemap)
+// so lastmod comes from content data and large sections are chunked.
 export default defineConfig({
     output: 'static',
     site: 'https://aptidude.in',
-    integrations: [
-        sitemap({
-            // Filter out pages that shouldn't be in sitemap
-            filter: (page) => 
-                !page.includes('/app/') &&
-                !page.includes('/admin/') &&
-                !page.includes('/profile/') &&
-                !page.includes('/auth/') &&
-                !page.includes('/login') &&
-                !page.includes('/signup'),
-            // Change frequency hints for crawlers
-            changefreq: 'weekly',
-            // Priority hints (0.0 to 1.0)
-            priority: 0.7,
-            // Last modified date
-            lastmod: new Date(),
-        })
-    ],
     build: {
         format: 'directory',
         inlineStylesheets: 'auto'
@@ -39,6 +23,8 @@ export default defineConfig({
             drop: ['console', 'debugger']
         }
     },
+    // BUILD_MODE=incremental regenerates only changed question, listing and OG pages
+    integrations: [incrementalBuild()],
     compressHTML: true,
     prefetch: {
         prefetchAll: false,
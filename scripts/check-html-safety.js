@@ -0,0 +1,200 @@
+/**
+ * HTML Safety Check
+ *
+ * Scans a built site for markup that rendered content must never produce:
+ * event handler attributes, script/iframe/object/embed/base elements,
+ * javascript:/vbscript:/data:text URLs, CSS url()/expression() in style
+ * attributes and non-http data-app-redirect targets. Run it against a build
+ * of the hostile corpus (fixtures/hostile) to prove markdown and LaTeX from
+ * the API render inert.
+ *
+ * Usage: node scripts/check-html-safety.js <distDir> [--corpus <fixturesDir>]
+ *
+ * Options:
+ *   --corpus    Also require every HOSTILE-<questionNumber> marker of the
+ *               corpus (and HOSTILE-LESSON) to appear in the output, so a
+ *               page that silently dropped its content can't pass
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const args = process.argv.slice(2);
+const distDir = args.find(arg => !arg.startsWith('--'));
+const corpusIndex = args.indexOf('--corpus');
+const corpusDir = corpusIndex !== -1 ? args[corpusIndex + 1] : undefined;
+
+if (!distDir || !fs.existsSync(distDir)) {
+    console.error('Usage: node scripts/check-html-safety.js <distDir> [--corpus <fixturesDir>]');
+    process.exit(1);
+}
+
+// Elements whose content is raw text: skipped after their opening tag is checked
+const RAW_TEXT = new Set(['script', 'style', 'title', 'textarea', 'xmp', 'noscript']);
+// Elements rendered content can't produce, anywhere in the page
+const FORBIDDEN = new Set(['iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'portal']);
+// Elements that only belong in <head>
+const HEAD_ONLY = new Set(['base', 'meta', 'link', 'style']);
+// Form controls: only allowed from the site's own templates (Astro scopes them with data-astro-cid-*)
+const FORM_CONTROLS = new Set(['form', 'input', 'textarea', 'button', 'select']);
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href', 'data', 'poster', 'background', 'srcset', 'ping']);
+
+const TAG = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!doctype[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?|\s*\/)*)\s*>/gi;
+const ATTRIBUTE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Decode character references the way a browser does before it looks at a URL
+ */
+function decodeEntities(value) {
+    const named = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n', nbsp: ' ' };
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, body) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return named[body.toLowerCase()] ?? entity;
+    });
+}
+
+function isDangerousUrl(value) {
+    // Browsers ignore control characters and whitespace inside the scheme
+    const normalized = decodeEntities(value).replace(/[\u0000-\u0020\u007f-\u00a0]/g, '').toLowerCase();
+    return /^(javascript|vbscript|livescript):/.test(normalized) || /^data:(?!image\/(png|gif|jpe?g|webp)[;,])/.test(normalized);
+}
+
+function parseAttributes(source) {
+    const attributes = [];
+    let match;
+    ATTRIBUTE.lastIndex = 0;
+    while ((match = ATTRIBUTE.exec(source)) !== null) {
+        attributes.push({ name: match[1].toLowerCase(), value: match[2] ?? match[3] ?? match[4] ?? '' });
+    }
+    return attributes;
+}
+
+/**
+ * Every problem in one HTML document
+ */
+function checkDocument(html) {
+    const problems = [];
+    let inBody = false;
+    let match;
+    TAG.lastIndex = 0;
+
+    while ((match = TAG.exec(html)) !== null) {
+        const [raw, closing, opening, attributeSource = ''] = match;
+        if (closing) {
+            if (closing.toLowerCase() === 'head') inBody = true;
+            continue;
+        }
+        if (!opening) continue;
+
+        const name = opening.toLowerCase();
+        const attributes = parseAttributes(attributeSource);
+        const attribute = attributeName => attributes.find(a => a.name === attributeName);
+        const snippet = raw.length > 120 ? `${raw.slice(0, 117)}...` : raw;
+
+        if (name === 'body') inBody = true;
+        if (FORBIDDEN.has(name)) problems.push(`forbidden <${name}>: ${snippet}`);
+        if (inBody && HEAD_ONLY.has(name)) problems.push(`<${name}> in body: ${snippet}`);
+        if (inBody && FORM_CONTROLS.has(name) && !attributes.some(a => a.name.startsWith('data-astro-cid-'))) {
+            problems.push(`form control from content: ${snippet}`);
+        }
+
+        for (const { name: attributeName, value } of attributes) {
+            if (attributeName.startsWith('on')) problems.push(`event handler ${attributeName}: ${snippet}`);
+            if (attributeName === 'srcdoc') problems.push(`srcdoc attribute: ${snippet}`);
+            if (URL_ATTRIBUTES.has(attributeName) && isDangerousUrl(value)) problems.push(`dangerous ${attributeName}: ${snippet}`);
+            if (attributeName === 'style' && /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:/i.test(decodeEntities(value))) {
+                problems.push(`dangerous style: ${snippet}`);
+            }
+            if (attributeName === 'data-app-redirect' && !/^https?:\/\//i.test(decodeEntities(value).trim())) {
+                problems.push(`data-app-redirect to a non-http URL: ${snippet}`);
+            }
+        }
+
+        if (name === 'script') {
+            const type = attribute('type')?.value.toLowerCase();
+            const src = attribute('src')?.value;
+            if (src !== undefined && !src.startsWith('/_astro/')) problems.push(`external script: ${snippet}`);
+            if (type && type !== 'module' && type !== 'application/ld+json' && type !== 'text/javascript') {
+                problems.push(`script of type ${type}: ${snippet}`);
+            }
+        }
+
+        if (RAW_TEXT.has(name)) {
+            const end = html.toLowerCase().indexOf(`</${name}`, TAG.lastIndex);
+            const content = html.slice(TAG.lastIndex, end === -1 ? html.length : end);
+            if (name === 'script' && attribute('type')?.value.toLowerCase() === 'application/ld+json') {
+                // Structured data quotes content; it must still be one intact JSON value
+                try {
+                    JSON.parse(content);
+                } catch {
+                    problems.push(`JSON-LD broken out of: ${content.slice(0, 80)}`);
+                }
+            } else if (name === 'script' && /alert\s*\(/.test(content)) {
+                // The corpus' payloads all call alert(); the site's own inline scripts never do
+                problems.push(`injected script content: ${content.slice(0, 80)}`);
+            }
+            TAG.lastIndex = end === -1 ? html.length : end;
+        }
+    }
+
+    return problems;
+}
+
+function listHtmlFiles(dir) {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listHtmlFiles(fullPath);
+        return entry.name.endsWith('.html') ? [fullPath] : [];
+    });
+}
+
+/**
+ * Markers the corpus' pages must render: HOSTILE-<questionNumber> and HOSTILE-LESSON
+ */
+function readCorpusMarkers(dir) {
+    const markers = fs.readFileSync(path.join(dir, 'questions.ndjson'), 'utf-8')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('//'))
+        .map(line => `HOSTILE-${JSON.parse(line).questionNumber}`);
+    return [...markers, 'HOSTILE-LESSON'];
+}
+
+function main() {
+    const files = listHtmlFiles(distDir);
+    let failures = 0;
+    const seen = new Set();
+
+    console.log(`🔍 Checking ${files.length} HTML files in ${distDir}`);
+
+    for (const file of files) {
+        const html = fs.readFileSync(file, 'utf-8');
+        for (const marker of html.match(/HOSTILE-(\d+|LESSON)/g) || []) seen.add(marker);
+
+        const problems = checkDocument(html);
+        if (problems.length > 0) {
+            failures += problems.length;
+            console.error(`\n❌ ${path.relative(distDir, file)}`);
+            for (const problem of problems) console.error(`   ${problem}`);
+        }
+    }
+
+    if (corpusDir) {
+        const missing = readCorpusMarkers(corpusDir).filter(marker => !seen.has(marker));
+        if (missing.length > 0) {
+            failures += missing.length;
+            console.error(`\n❌ Corpus content missing from the build: ${missing.join(', ')}`);
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} unsafe output(s) found`);
+        process.exit(1);
+    }
+    console.log(`✅ No unsafe markup in ${files.length} files${corpusDir ? ` (${seen.size} corpus markers rendered)` : ''}`);
+}
+
+main();
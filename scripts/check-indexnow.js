@@ -0,0 +1,200 @@
+// @ts-check
+/**
+ * IndexNow Submission Check
+ *
+ * Runs scripts/submit-indexnow.js against the mock IndexNow server
+ * (scripts/mock-indexnow-server.js) on a small generated build: only changed
+ * pages are submitted, 429/5xx are retried, other errors aren't and leave the
+ * state untouched, and nothing is sent without the key file.
+ *
+ * Usage: node scripts/check-indexnow.js
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { submitIndexNow, getDefaultConfig, IndexNowError } from './submit-indexnow.js';
+import { startMockIndexNowServer } from './mock-indexnow-server.js';
+
+const HOST = 'example.test';
+const KEY = '0123456789abcdef0123456789abcdef';
+
+/**
+ * Write a build with the given pages (path -> HTML) and a sitemap listing them
+ * @param {string} distDir
+ * @param {Record<string, string>} pages
+ */
+function writeBuild(distDir, pages) {
+    fs.rmSync(distDir, { recursive: true, force: true });
+    fs.mkdirSync(distDir, { recursive: true });
+    const locs = Object.keys(pages).map(page => `<url><loc>https://${HOST}${page}</loc></url>`).join('');
+    fs.writeFileSync(path.join(distDir, 'sitemap-index.xml'),
+        `<sitemapindex><sitemap><loc>https://${HOST}/sitemap-pages.xml</loc></sitemap></sitemapindex>`);
+    fs.writeFileSync(path.join(distDir, 'sitemap-pages.xml'), `<urlset>${locs}</urlset>`);
+    for (const [page, html] of Object.entries(pages)) {
+        const dir = path.join(distDir, page);
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, 'index.html'), html);
+    }
+}
+
+/** @type {Array<{ name: string; error?: unknown }>} */
+const results = [];
+
+/**
+ * @param {string} name
+ * @param {() => Promise<void>} run
+ */
+async function check(name, run) {
+    try {
+        await run();
+        results.push({ name });
+    } catch (error) {
+        results.push({ name, error });
+    }
+}
+
+/**
+ * @param {boolean} condition
+ * @param {string} message
+ */
+function assert(condition, message) {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * @param {unknown} actual
+ * @param {unknown} expected
+ * @param {string} what
+ */
+function assertEqual(actual, expected, what) {
+    assert(JSON.stringify(actual) === JSON.stringify(expected),
+        `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+}
+
+async function main() {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'indexnow-check-'));
+    const server = await startMockIndexNowServer();
+    const url = (/** @type {string} */ page) => `https://${HOST}${page}`;
+
+    const config = {
+        ...getDefaultConfig(),
+        host: HOST,
+        key: KEY,
+        endpoint: server.endpoint,
+        distDir: path.join(root, 'dist'),
+        publicDir: path.join(root, 'public'),
+        stateFile: path.join(root, 'indexnow-state.json'),
+        batchSize: 2,
+        retries: 2,
+        backoffMs: 10,
+        batchDelayMs: 0
+    };
+    const readState = () => JSON.parse(fs.readFileSync(config.stateFile, 'utf-8'));
+    const sentSince = (/** @type {number} */ start) => server.requests.slice(start).flatMap(request => request.urlList);
+
+    writeBuild(config.distDir, { '/': 'home', '/a': 'page a', '/b': 'page b' });
+    fs.mkdirSync(config.publicDir, { recursive: true });
+
+    console.log(`🔍 Checking IndexNow submissions against ${server.endpoint}`);
+
+    await check('refuses to submit without the key file', async () => {
+        const error = await submitIndexNow(config).catch(caught => caught);
+        assert(error instanceof Error && /Key file/.test(error.message), `expected a key file error, got ${error}`);
+        assertEqual(server.requests.length, 0, 'requests');
+    });
+
+    fs.writeFileSync(path.join(config.publicDir, `${KEY}.txt`), KEY);
+
+    await check('first run submits every page in batches', async () => {
+        const result = await submitIndexNow(config);
+        assertEqual(result.submitted, 3, 'submitted');
+        assertEqual(server.requests.length, 2, 'requests');
+        const [request] = server.requests;
+        assertEqual([request.host, request.key, request.keyLocation], [HOST, KEY, `https://${HOST}/${KEY}.txt`], 'payload');
+        assertEqual(Object.keys(readState().pages).sort(), [url('/'), url('/a'), url('/b')], 'state');
+    });
+
+    await check('unchanged build submits nothing', async () => {
+        const start = server.requests.length;
+        const result = await submitIndexNow(config);
+        assertEqual(result.submitted, 0, 'submitted');
+        assertEqual(server.requests.length, start, 'requests');
+    });
+
+    await check('only added, changed and removed pages are submitted', async () => {
+        writeBuild(config.distDir, { '/': 'home', '/a': 'page a, edited', '/c': 'page c' });
+        const start = server.requests.length;
+        const result = await submitIndexNow(config);
+        assertEqual([result.added, result.changed, result.removed], [[url('/c')], [url('/a')], [url('/b')]], 'changes');
+        assertEqual(sentSince(start), [url('/c'), url('/a'), url('/b')], 'submitted URLs');
+        assertEqual(Object.keys(readState().pages).sort(), [url('/'), url('/a'), url('/c')], 'state');
+    });
+
+    await check('429 and 5xx are retried', async () => {
+        writeBuild(config.distDir, { '/': 'home, edited', '/a': 'page a, edited', '/c': 'page c' });
+        server.respondWith({ status: 429, headers: { 'Retry-After': '0' } }, { status: 503 });
+        const start = server.requests.length;
+        const result = await submitIndexNow(config);
+        assertEqual(result.submitted, 1, 'submitted');
+        assertEqual(server.requests.length - start, 3, 'attempts');
+    });
+
+    await check('other errors fail without retrying or saving state', async () => {
+        writeBuild(config.distDir, { '/': 'home, edited', '/a': 'page a, edited again', '/c': 'page c' });
+        const before = readState();
+        server.respondWith({ status: 403 });
+        const start = server.requests.length;
+        const error = await submitIndexNow(config).catch(caught => caught);
+        assert(error instanceof IndexNowError && error.status === 403, `expected an IndexNowError 403, got ${error}`);
+        assertEqual(server.requests.length - start, 1, 'attempts');
+        assertEqual(readState(), before, 'state');
+    });
+
+    await check('persistent 5xx gives up after the configured retries', async () => {
+        server.respondWith({ status: 500 }, { status: 500 }, { status: 500 });
+        const start = server.requests.length;
+        const error = await submitIndexNow(config).catch(caught => caught);
+        assert(error instanceof Error && /after 2 retries/.test(error.message), `expected a retry error, got ${error}`);
+        assertEqual(server.requests.length - start, 3, 'attempts');
+    });
+
+    await check('pages left over from a failed run are submitted next time', async () => {
+        const start = server.requests.length;
+        const result = await submitIndexNow(config);
+        assertEqual(sentSince(start), [url('/a')], 'submitted URLs');
+        assertEqual(result.changed, [url('/a')], 'changed');
+    });
+
+    await check('template and asset changes are not resubmitted', async () => {
+        const page = (/** @type {string} */ asset, /** @type {string} */ text) =>
+            `<html><head><title>A</title><link rel="stylesheet" href="/_astro/${asset}.css"></head>` +
+            `<body><nav>${asset}</nav><main><p class="x" data-astro-cid-${asset.split('.')[1]}>${text}</p></main></body></html>`;
+        writeBuild(config.distDir, { '/': 'home, edited', '/a': page('base.k3j2', 'page a'), '/c': 'page c' });
+        await submitIndexNow(config);
+
+        writeBuild(config.distDir, { '/': 'home, edited', '/a': page('base.x9q1', 'page a'), '/c': 'page c' });
+        const start = server.requests.length;
+        assertEqual((await submitIndexNow(config)).submitted, 0, 'submitted after an asset change');
+
+        writeBuild(config.distDir, { '/': 'home, edited', '/a': page('base.x9q1', 'page a, edited'), '/c': 'page c' });
+        assertEqual((await submitIndexNow(config)).changed, [url('/a')], 'changed after a content change');
+        assertEqual(sentSince(start), [url('/a')], 'submitted URLs');
+    });
+
+    await server.close();
+    fs.rmSync(root, { recursive: true, force: true });
+
+    for (const { name, error } of results) {
+        if (error) console.error(`❌ ${name}\n   ${error instanceof Error ? error.message : error}`);
+        else console.log(`✅ ${name}`);
+    }
+    const failures = results.filter(result => result.error).length;
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} of ${results.length} IndexNow checks failed`);
+        process.exit(1);
+    }
+    console.log(`\n✅ All ${results.length} IndexNow checks passed`);
+}
+
+main();
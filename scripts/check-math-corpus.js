@@ -0,0 +1,117 @@
+/**
+ * Math Rendering Regression Check
+ *
+ * Compares the rendered statements of the math corpus (fixtures/math) with
+ * fixtures/math/expected.json: how many formulas KaTeX rendered, how many of
+ * them are display math or KaTeX errors, and snippets the HTML must or must
+ * not contain (currency kept as text, code left alone, no markdown inside TeX).
+ * `schemaContains` snippets are looked for in the page's JSON-LD, whose plain
+ * text must find formulas with the same rules as the renderer.
+ *
+ * Usage: node scripts/check-math-corpus.js <distDir> <corpusDir>
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const [distDir, corpusDir] = process.argv.slice(2);
+
+if (!distDir || !corpusDir || !fs.existsSync(distDir)) {
+    console.error('Usage: node scripts/check-math-corpus.js <distDir> <corpusDir>');
+    process.exit(1);
+}
+
+/**
+ * Inner HTML of the first <div class="statement-content"> in a page
+ */
+function getStatementHtml(html) {
+    const start = html.indexOf('<div class="statement-content"');
+    if (start === -1) return undefined;
+
+    const contentStart = html.indexOf('>', start) + 1;
+    const divs = /<div\b|<\/div>/g;
+    divs.lastIndex = contentStart;
+    let depth = 1;
+    let match;
+    while ((match = divs.exec(html)) !== null) {
+        depth += match[0] === '</div>' ? -1 : 1;
+        if (depth === 0) return html.slice(contentStart, match.index);
+    }
+    return undefined;
+}
+
+/**
+ * Question number → its rendered statement and JSON-LD, from the /questions/ pages
+ */
+function readStatements() {
+    const questionsDir = path.join(distDir, 'questions');
+    const statements = new Map();
+
+    for (const slug of fs.readdirSync(questionsDir)) {
+        const file = path.join(questionsDir, slug, 'index.html');
+        if (!fs.existsSync(file)) continue;
+        const html = fs.readFileSync(file, 'utf-8');
+        // The app link carries the question number
+        const number = html.match(/\/question\/(\d+)"/)?.[1];
+        if (number) {
+            const schema = [...html.matchAll(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/g)]
+                .map(match => match[1])
+                .join('\n');
+            statements.set(number, { html: getStatementHtml(html), schema });
+        }
+    }
+    return statements;
+}
+
+const count = (html, pattern) => (html.match(pattern) || []).length;
+
+function main() {
+    const expected = JSON.parse(fs.readFileSync(path.join(corpusDir, 'expected.json'), 'utf-8'));
+    const statements = readStatements();
+    let failures = 0;
+
+    console.log(`🔍 Checking ${Object.keys(expected).length} math corpus questions in ${distDir}`);
+
+    for (const [number, expect] of Object.entries(expected)) {
+        const { html, schema = '' } = statements.get(number) || {};
+        const problems = [];
+
+        if (html === undefined) {
+            problems.push('no rendered statement found');
+        } else {
+            const actual = {
+                katex: count(html, /<span class="katex">/g),
+                display: count(html, /<div class="katex-display">/g),
+                errors: count(html, /class="katex-error"/g)
+            };
+            for (const key of ['katex', 'display', 'errors']) {
+                if (expect[key] !== undefined && actual[key] !== expect[key]) {
+                    problems.push(`expected ${expect[key]} ${key}, got ${actual[key]}`);
+                }
+            }
+            for (const snippet of expect.contains || []) {
+                if (!html.includes(snippet)) problems.push(`missing ${JSON.stringify(snippet)}`);
+            }
+            for (const snippet of expect.excludes || []) {
+                if (html.includes(snippet)) problems.push(`unexpected ${JSON.stringify(snippet)}`);
+            }
+            for (const snippet of expect.schemaContains || []) {
+                if (!schema.includes(snippet)) problems.push(`JSON-LD missing ${JSON.stringify(snippet)}`);
+            }
+        }
+
+        if (problems.length > 0) {
+            failures++;
+            console.error(`\n❌ Question ${number}`);
+            for (const problem of problems) console.error(`   ${problem}`);
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} question(s) rendered differently than expected`);
+        process.exit(1);
+    }
+    console.log(`✅ All ${Object.keys(expected).length} math corpus questions render as expected`);
+}
+
+main();
@@ -0,0 +1,103 @@
+// @ts-check
+/**
+ * Mock IndexNow Server
+ *
+ * Local stand-in for an IndexNow endpoint: records every submission and
+ * answers with queued status codes (200 once the queue is empty), so the
+ * submission script can be exercised without contacting a search engine.
+ *
+ * Usage: node scripts/mock-indexnow-server.js [port] [status...]
+ *   e.g. node scripts/mock-indexnow-server.js 8787 429 503
+ *   then node scripts/submit-indexnow.js --endpoint http://localhost:8787/IndexNow
+ */
+
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * @typedef {object} MockResponse
+ * @property {number} status
+ * @property {Record<string, string>} [headers]
+ */
+
+/**
+ * @typedef {object} MockSubmission
+ * @property {string} host
+ * @property {string} key
+ * @property {string} keyLocation
+ * @property {string[]} urlList
+ */
+
+/**
+ * @typedef {object} MockIndexNowServer
+ * @property {string} endpoint                       URL to submit to
+ * @property {MockSubmission[]} requests             Every submission received, in order
+ * @property {(...responses: MockResponse[]) => void} respondWith  Queue the next responses
+ * @property {() => Promise<void>} close
+ */
+
+/**
+ * Start a mock server on `port` (0 picks a free one)
+ * @param {number} [port]
+ * @param {boolean} [verbose]  Log every submission
+ * @returns {Promise<MockIndexNowServer>}
+ */
+export function startMockIndexNowServer(port = 0, verbose = false) {
+    /** @type {MockResponse[]} */
+    const queue = [];
+    /** @type {MockSubmission[]} */
+    const requests = [];
+
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            if (req.method !== 'POST') {
+                res.writeHead(405).end();
+                return;
+            }
+            try {
+                requests.push(JSON.parse(body));
+            } catch {
+                res.writeHead(400).end('Invalid JSON');
+                return;
+            }
+            const { status, headers = {} } = queue.shift() || { status: 200 };
+            res.writeHead(status, headers).end();
+
+            if (verbose) {
+                const { host, key, urlList } = requests[requests.length - 1];
+                console.log(`📨 ${urlList.length} URLs for ${host} (key ${key}) → ${status}`);
+                for (const url of urlList) console.log(`   ${url}`);
+            }
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(port, '127.0.0.1', () => {
+            const address = server.address();
+            const actualPort = typeof address === 'object' && address ? address.port : port;
+            resolve({
+                endpoint: `http://127.0.0.1:${actualPort}/IndexNow`,
+                requests,
+                respondWith: (...responses) => { queue.push(...responses); },
+                close: () => new Promise(done => {
+                    server.close(() => done());
+                    server.closeAllConnections();
+                })
+            });
+        });
+    });
+}
+
+async function main() {
+    const [port = '8787', ...statuses] = process.argv.slice(2);
+    const server = await startMockIndexNowServer(Number(port), true);
+    server.respondWith(...statuses.map(status => ({ status: Number(status) })));
+    console.log(`🧪 Mock IndexNow listening at ${server.endpoint} (Ctrl+C to stop)`);
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main();
+}
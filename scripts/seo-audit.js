@@ -0,0 +1,447 @@
+/**
+ * SEO Audit
+ *
+ * Reads every generated page in a build and reports what generateTitle,
+ * generateDescription and the page templates produced at scale:
+ * duplicate titles/descriptions, titles cut at 120 characters, descriptions
+ * outside the recommended length, image-only questions that fell back to the
+ * generic "visual question" text, canonical URLs that don't match the route,
+ * broken or redirected internal links and pages nothing links to.
+ *
+ * A page whose canonical points to another built page that is canonical to
+ * itself (difficulty facets holding every question of the topic) is a
+ * deliberate consolidation: it is listed separately and left out of the
+ * duplicate and orphan checks.
+ *
+ * Writes reports/seo-audit.json and reports/seo-audit.html, and exits with 1
+ * when a count exceeds its threshold (so CI can fail on it).
+ *
+ * Usage: node scripts/seo-audit.js [distDir]
+ *
+ * Options:
+ *   --max-<metric> <n>   Override a threshold, e.g. --max-orphan-pages 0
+ *                        (metrics are listed in CONFIG.thresholds; "none"
+ *                        turns a threshold off; anything else but a
+ *                        non-negative integer is an error)
+ *   --report-dir <dir>   Where to write the reports (default: reports, or REPORT_DIR)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// "<topic> visual question." in every locale (src/data/i18n.json), without
+// the topic and closing punctuation
+const i18n = JSON.parse(fs.readFileSync(new URL('../src/data/i18n.json', import.meta.url), 'utf-8'));
+const VISUAL_FALLBACKS = Object.values(i18n.strings)
+    .map(strings => strings['seo.visualQuestion'].replace('{topic}', '').replace(/[.।]\s*$/, '').trim().toLowerCase());
+
+// Configuration
+const CONFIG = {
+    siteUrl: 'https://aptidude.in',
+    // Links into the React app are served elsewhere
+    appPrefixes: ['/app'],
+    // Hard cut in generateTitle()
+    titleMaxLength: 120,
+    descriptionMinLength: 70,
+    descriptionMaxLength: 160,
+    // Most entries listed per issue in the HTML report (JSON lists all)
+    htmlListLimit: 200,
+    // Highest allowed count per metric; null only reports
+    thresholds: {
+        missingMeta: 0,
+        duplicateTitles: 0,
+        duplicateDescriptions: null,
+        truncatedTitles: null,
+        shortDescriptions: null,
+        longDescriptions: null,
+        visualFallbacks: null,
+        canonicalMismatches: 0,
+        canonicalizedPages: null,
+        brokenLinks: 0,
+        redirectedLinks: null,
+        orphanPages: null
+    }
+};
+
+const METRIC_LABELS = {
+    missingMeta: 'Pages without a title or description',
+    duplicateTitles: 'Titles shared by several pages',
+    duplicateDescriptions: 'Descriptions shared by several pages',
+    truncatedTitles: `Titles cut at ${CONFIG.titleMaxLength} characters`,
+    shortDescriptions: `Descriptions under ${CONFIG.descriptionMinLength} characters`,
+    longDescriptions: `Descriptions over ${CONFIG.descriptionMaxLength} characters`,
+    visualFallbacks: 'Image-only questions with generic "visual question" text',
+    canonicalMismatches: 'Canonical URLs that don\'t match the route',
+    canonicalizedPages: 'Pages canonicalized to another page',
+    brokenLinks: 'Internal links to pages that don\'t exist',
+    redirectedLinks: 'Internal links to redirected URLs',
+    orphanPages: 'Pages no other page links to'
+};
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+let distDir = 'dist';
+let reportDir = process.env.REPORT_DIR || 'reports';
+for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--report-dir') {
+        reportDir = args[++i];
+    } else if (arg.startsWith('--max-')) {
+        const metric = arg.slice('--max-'.length).replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+        if (!(metric in CONFIG.thresholds)) {
+            console.error(`Unknown metric "${metric}" (known: ${Object.keys(CONFIG.thresholds).join(', ')})`);
+            process.exit(1);
+        }
+        const value = args[++i];
+        // A value that isn't a count would turn the gate off without saying so
+        if (value !== 'none' && !/^\d+$/.test(value ?? '')) {
+            console.error(`${arg} needs a non-negative integer or "none", got ${value === undefined ? 'nothing' : `"${value}"`}`);
+            process.exit(1);
+        }
+        CONFIG.thresholds[metric] = value === 'none' ? null : Number(value);
+    } else {
+        distDir = arg;
+    }
+}
+
+if (!fs.existsSync(distDir)) {
+    console.error(`Build directory not found: ${distDir} (run a build first)`);
+    process.exit(1);
+}
+
+/**
+ * Decode the character references Astro writes into text and attributes
+ */
+function decodeEntities(value) {
+    const named = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return named[body.toLowerCase()] ?? entity;
+    });
+}
+
+const escapeHtml = text => String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** "/a/b/" → "/a/b"; the site uses directory URLs without a trailing slash */
+const normalizePath = pathname => (pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname) || '/';
+
+function listHtmlFiles(dir) {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listHtmlFiles(fullPath);
+        return entry.name.endsWith('.html') ? [fullPath] : [];
+    });
+}
+
+/**
+ * Route of a built file: dist/learn/cat/index.html → /learn/cat
+ */
+function getRoute(file) {
+    const relative = path.relative(distDir, file).split(path.sep).join('/');
+    return normalizePath(`/${relative.replace(/(^|\/)index\.html$/, '').replace(/\.html$/, '')}`);
+}
+
+function getAttribute(tag, name) {
+    const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+    return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Title, description, canonical, robots and outgoing links of a page
+ */
+function readPage(file) {
+    const html = fs.readFileSync(file, 'utf-8');
+    const route = getRoute(file);
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const metaTags = html.match(/<meta\b[^>]*>/gi) || [];
+    const linkTags = html.match(/<link\b[^>]*>/gi) || [];
+    const meta = name => {
+        const tag = metaTags.find(candidate => getAttribute(candidate, 'name')?.toLowerCase() === name);
+        return tag ? getAttribute(tag, 'content') : undefined;
+    };
+    const relLinks = rel => linkTags.filter(tag => getAttribute(tag, 'rel')?.toLowerCase() === rel)
+        .map(tag => getAttribute(tag, 'href'))
+        .filter(Boolean);
+
+    // Page bodies only: <a> links count as inbound links, rel=prev/next are checked too
+    const anchors = (html.match(/<a\b[^>]*>/gi) || []).map(tag => getAttribute(tag, 'href')).filter(Boolean);
+
+    return {
+        route,
+        title: title !== undefined ? decodeEntities(title).trim() : undefined,
+        description: meta('description')?.trim(),
+        canonical: relLinks('canonical')[0],
+        noindex: /noindex/i.test(meta('robots') || ''),
+        redirect: metaTags.some(tag => getAttribute(tag, 'http-equiv')?.toLowerCase() === 'refresh'),
+        anchors,
+        pageLinks: [...relLinks('prev'), ...relLinks('next')]
+    };
+}
+
+/**
+ * Redirect sources from vercel.json as matchers (":param", ":param*" and "(.*)" patterns)
+ */
+function loadRedirects() {
+    const file = path.resolve('vercel.json');
+    if (!fs.existsSync(file)) return [];
+    const { redirects = [] } = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+    return redirects
+        .filter(redirect => !redirect.has)
+        .map(redirect => {
+            const pattern = redirect.source
+                .split(/(\(\.\*\)|:\w+\*?)/)
+                .map(part => {
+                    if (part === '(.*)' || /^:\w+\*$/.test(part)) return '.*';
+                    if (/^:\w+$/.test(part)) return '[^/]+';
+                    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                })
+                .join('');
+            return { source: redirect.source, destination: redirect.destination, matcher: new RegExp(`^${pattern}$`) };
+        });
+}
+
+/**
+ * Internal path a link points to, or null for external/app/fragment links
+ */
+function toInternalPath(href, fromRoute) {
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) return null;
+
+    let url;
+    try {
+        url = new URL(href, `${CONFIG.siteUrl}${fromRoute === '/' ? '/' : `${fromRoute}/`}`);
+    } catch {
+        return null;
+    }
+    if (url.origin !== CONFIG.siteUrl) return null;
+
+    const pathname = normalizePath(decodeURI(url.pathname));
+    if (CONFIG.appPrefixes.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))) return null;
+    return pathname;
+}
+
+/**
+ * Whether a path is served by the build (a page or any other file)
+ */
+function existsInBuild(pathname, routes) {
+    if (routes.has(pathname)) return true;
+    const file = path.join(distDir, pathname);
+    return fs.existsSync(file) && fs.statSync(file).isFile();
+}
+
+function groupDuplicates(pages, key) {
+    const groups = new Map();
+    for (const page of pages) {
+        const value = page[key];
+        if (!value) continue;
+        if (!groups.has(value)) groups.set(value, []);
+        groups.get(value).push(page.route);
+    }
+    return Array.from(groups, ([value, routes]) => ({ value, routes }))
+        .filter(group => group.routes.length > 1)
+        .sort((a, b) => b.routes.length - a.routes.length);
+}
+
+function audit() {
+    const files = listHtmlFiles(distDir).filter(file => !/(^|[\\/])404\.html$/.test(file));
+    const allPages = files.map(readPage);
+    const routes = new Set(allPages.map(page => page.route));
+    const redirects = loadRedirects();
+    // Redirect stubs and noindex pages (e.g. /search) aren't audited for content
+    const pages = allPages.filter(page => !page.redirect && !page.noindex);
+    const byRoute = new Map(pages.map(page => [page.route, page]));
+    const canonicalOf = page => page.canonical?.replace(/\/+$/, '');
+    const urlOf = route => `${CONFIG.siteUrl}${route === '/' ? '' : route}`;
+
+    const canonicalMismatches = [];
+    const canonicalizedPages = [];
+    for (const page of pages) {
+        const canonical = canonicalOf(page);
+        if (canonical === urlOf(page.route)) continue;
+
+        const target = canonical?.startsWith(`${CONFIG.siteUrl}/`) || canonical === CONFIG.siteUrl
+            ? byRoute.get(normalizePath(canonical.slice(CONFIG.siteUrl.length) || '/'))
+            : undefined;
+        if (target && canonicalOf(target) === urlOf(target.route)) {
+            canonicalizedPages.push({ route: page.route, canonical: page.canonical });
+        } else {
+            canonicalMismatches.push({ route: page.route, canonical: page.canonical ?? null, expected: urlOf(page.route) });
+        }
+    }
+    const consolidated = new Set(canonicalizedPages.map(item => item.route));
+    const canonicalPages = pages.filter(page => !consolidated.has(page.route));
+
+    const issues = {
+        missingMeta: [],
+        duplicateTitles: groupDuplicates(canonicalPages, 'title'),
+        duplicateDescriptions: groupDuplicates(canonicalPages, 'description'),
+        truncatedTitles: [],
+        shortDescriptions: [],
+        longDescriptions: [],
+        visualFallbacks: [],
+        canonicalMismatches,
+        canonicalizedPages,
+        brokenLinks: [],
+        redirectedLinks: [],
+        orphanPages: []
+    };
+
+    for (const page of pages) {
+        if (!page.title || !page.description) {
+            issues.missingMeta.push({ route: page.route, missing: [!page.title && 'title', !page.description && 'description'].filter(Boolean) });
+        }
+        if (page.title && page.title.length >= CONFIG.titleMaxLength) {
+            issues.truncatedTitles.push({ route: page.route, title: page.title });
+        }
+        if (page.description && page.description.length < CONFIG.descriptionMinLength) {
+            issues.shortDescriptions.push({ route: page.route, length: page.description.length, description: page.description });
+        }
+        if (page.description && page.description.length > CONFIG.descriptionMaxLength) {
+            issues.longDescriptions.push({ route: page.route, length: page.description.length });
+        }
+        // generateDescription() falls back to "<topic> visual question." without statement text
+        const description = (page.description || '').toLowerCase();
+        if (/^(\/[a-z]{2})?\/questions\//.test(page.route) && VISUAL_FALLBACKS.some(text => description.includes(text))) {
+            issues.visualFallbacks.push({ route: page.route, title: page.title, description: page.description });
+        }
+    }
+
+    // Link graph over every page, so links from noindex pages still count
+    const inbound = new Map(canonicalPages.map(page => [page.route, new Set()]));
+    for (const page of allPages) {
+        for (const href of [...page.anchors, ...page.pageLinks]) {
+            const target = toInternalPath(href, page.route);
+            if (target === null) continue;
+
+            if (existsInBuild(target, routes)) {
+                if (target !== page.route && page.anchors.includes(href)) inbound.get(target)?.add(page.route);
+                continue;
+            }
+            const redirect = redirects.find(candidate => candidate.matcher.test(target));
+            if (redirect) {
+                issues.redirectedLinks.push({ from: page.route, href, redirect: redirect.source, destination: redirect.destination });
+            } else {
+                issues.brokenLinks.push({ from: page.route, href });
+            }
+        }
+    }
+
+    for (const [route, sources] of inbound) {
+        if (route !== '/' && sources.size === 0) issues.orphanPages.push({ route });
+    }
+
+    const counts = Object.fromEntries(Object.entries(issues).map(([metric, list]) => [metric, list.length]));
+    const failed = Object.entries(CONFIG.thresholds)
+        .filter(([metric, max]) => max !== null && counts[metric] > max)
+        .map(([metric]) => metric);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        distDir,
+        pages: allPages.length,
+        audited: pages.length,
+        limits: {
+            titleMaxLength: CONFIG.titleMaxLength,
+            descriptionMinLength: CONFIG.descriptionMinLength,
+            descriptionMaxLength: CONFIG.descriptionMaxLength
+        },
+        thresholds: CONFIG.thresholds,
+        counts,
+        failed,
+        issues
+    };
+}
+
+/**
+ * Readable version of the report: summary table, then each non-empty issue list
+ */
+function renderHtmlReport(report) {
+    const rows = Object.keys(CONFIG.thresholds).map(metric => {
+        const max = report.thresholds[metric];
+        const status = max === null ? 'report' : report.failed.includes(metric) ? 'fail' : 'pass';
+        return `<tr class="${status}"><td><a href="#${metric}">${escapeHtml(METRIC_LABELS[metric])}</a></td>` +
+            `<td>${report.counts[metric]}</td><td>${max === null ? '—' : max}</td><td>${status}</td></tr>`;
+    }).join('\n');
+
+    const describe = item => {
+        if (item.routes) {
+            return `<strong>${escapeHtml(item.value)}</strong><br>${item.routes.map(route => `<a href="${escapeHtml(route)}">${escapeHtml(route)}</a>`).join('<br>')}`;
+        }
+        const route = item.route ?? item.from;
+        const details = Object.entries(item)
+            .filter(([key]) => key !== 'route' && key !== 'from')
+            .map(([key, value]) => `${escapeHtml(key)}: ${escapeHtml(Array.isArray(value) ? value.join(', ') : value)}`)
+            .join('<br>');
+        return `<a href="${escapeHtml(route)}">${escapeHtml(route)}</a>${details ? `<br><small>${details}</small>` : ''}`;
+    };
+
+    const sections = Object.entries(report.issues)
+        .filter(([, list]) => list.length > 0)
+        .map(([metric, list]) => {
+            const shown = list.slice(0, CONFIG.htmlListLimit);
+            const more = list.length > shown.length ? `<p>…and ${list.length - shown.length} more in seo-audit.json</p>` : '';
+            return `<section id="${metric}"><h2>${escapeHtml(METRIC_LABELS[metric])} (${list.length})</h2>` +
+                `<ol>${shown.map(item => `<li>${describe(item)}</li>`).join('\n')}</ol>${more}</section>`;
+        }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>SEO Audit - ${escapeHtml(report.generatedAt)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #111827; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e5e7eb; }
+  tr.fail td { background: #fef2f2; color: #b91c1c; }
+  tr.pass td:last-child { color: #15803d; }
+  li { margin-bottom: 0.5rem; word-break: break-all; }
+  small { color: #4b5563; }
+</style>
+</head>
+<body>
+<h1>SEO Audit</h1>
+<p>${report.audited} of ${report.pages} pages audited in <code>${escapeHtml(report.distDir)}</code> at ${escapeHtml(report.generatedAt)}.
+${report.failed.length > 0 ? `<strong>${report.failed.length} threshold(s) exceeded.</strong>` : 'All thresholds met.'}</p>
+<table>
+<thead><tr><th>Check</th><th>Count</th><th>Max</th><th>Status</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${sections}
+</body>
+</html>
+`;
+}
+
+function main() {
+    console.log(`🔍 Auditing pages in ${distDir}...`);
+    const report = audit();
+
+    fs.mkdirSync(reportDir, { recursive: true });
+    fs.writeFileSync(path.join(reportDir, 'seo-audit.json'), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(reportDir, 'seo-audit.html'), renderHtmlReport(report));
+
+    console.log(`📄 ${report.audited} of ${report.pages} pages audited`);
+    for (const [metric, count] of Object.entries(report.counts)) {
+        const max = report.thresholds[metric];
+        const marker = report.failed.includes(metric) ? '❌' : count > 0 ? '⚠️ ' : '✅';
+        console.log(`   ${marker} ${METRIC_LABELS[metric]}: ${count}${max !== null ? ` (max ${max})` : ''}`);
+    }
+    console.log(`📝 Reports written to ${path.join(reportDir, 'seo-audit.json')} and seo-audit.html`);
+
+    if (report.failed.length > 0) {
+        console.error(`\n❌ SEO audit failed: ${report.failed.join(', ')} over threshold`);
+        process.exit(1);
+    }
+}
+
+main();
@@ -1,276 +1,418 @@
+// @ts-check
 /**
- * IndexNow URL Submission Script
- * 
- * This script reads the sitemap and submits all URLs to IndexNow for faster indexing
- * on Bing, Yandex, and other supported search engines.
- * 
- * Usage: node scripts/submit-indexnow.js
- * 
+ * IndexNow URL Submission
+ *
+ * Submits the pages added, changed or removed since the previous successful
+ * submission to IndexNow (Bing, Yandex and other supporting search engines).
+ * Pages come from the sitemaps of a local build; each page is fingerprinted by
+ * the hash of its content (title, description, canonical and alternate links,
+ * <main>), so template, CSS and asset-name changes don't resubmit the site.
+ * The fingerprints of submitted pages are kept in a state file
+ * (.cache/indexnow-state.json) so the next run only sends the diff.
+ *
+ * Usage: node scripts/submit-indexnow.js [options]
+ *
  * Options:
- *   --dry-run    Preview URLs without submitting
- *   --sitemap    Specify a custom sitemap URL (default: https://aptidude.in/sitemap-index.xml)
+ *   --dry-run          Show what would be submitted without submitting or saving state
+ *   --full             Ignore the state file and submit every page
+ *   --dist <dir>       Build directory to read (default: dist)
+ *   --host <host>      Site host (default: aptidude.in, or INDEXNOW_HOST)
+ *   --key <key>        IndexNow key (default: INDEXNOW_KEY, or the key file in public/)
+ *   --endpoint <url>   IndexNow endpoint (default: https://api.indexnow.org/IndexNow,
+ *                      or INDEXNOW_ENDPOINT)
+ *   --state <file>     State file (default: .cache/indexnow-state.json, or INDEXNOW_STATE_FILE)
+ *
+ * The key file (public/<key>.txt containing the key) must exist, since search
+ * engines fetch it to verify the submission.
  */
 
 import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { fileURLToPath } from 'url';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Configuration
-const CONFIG = {
-    host: 'aptidude.in',
-    key: '75ef1c2fc3f74b84ab8e814e76d9d918',
-    keyLocation: 'https://aptidude.in/75ef1c2fc3f74b84ab8e814e76d9d918.txt',
-    indexNowEndpoint: 'https://api.indexnow.org/IndexNow',
-    // You can also use Bing's endpoint directly: 'https://www.bing.com/IndexNow'
-    sitemapUrl: 'https://aptidude.in/sitemap-index.xml',
-    batchSize: 500, // Using smaller batches for reliability (10,000 can cause issues)
+export const STATE_VERSION = 2;
+
+/**
+ * @typedef {object} IndexNowConfig
+ * @property {string} host            Site host, e.g. aptidude.in
+ * @property {string} key             IndexNow key (also the key file name)
+ * @property {string} endpoint        IndexNow API endpoint
+ * @property {string} distDir         Build directory holding the sitemaps and pages
+ * @property {string} publicDir       Directory that must hold <key>.txt
+ * @property {string} stateFile       Where fingerprints of submitted pages are kept
+ * @property {number} batchSize       URLs per request (the protocol allows 10,000)
+ * @property {number} retries         Retries for 429/5xx/network errors
+ * @property {number} backoffMs       First retry delay, doubled on every retry
+ * @property {number} batchDelayMs    Pause between batches
+ * @property {boolean} dryRun
+ * @property {boolean} full           Submit every page, ignoring the state file
+ */
+
+/**
+ * @typedef {object} IndexNowState
+ * @property {number} version
+ * @property {string} host
+ * @property {string | null} submittedAt
+ * @property {Record<string, string>} pages  URL -> fingerprint of the submitted page
+ */
+
+/**
+ * @typedef {object} PageChanges
+ * @property {string[]} added
+ * @property {string[]} changed
+ * @property {string[]} removed
+ */
+
+/**
+ * @typedef {PageChanges & { submitted: number }} SubmissionResult
+ */
+
+/**
+ * Error for responses that retrying won't fix (400, 403, 422, ...)
+ */
+export class IndexNowError extends Error {
+    /**
+     * @param {number} status
+     * @param {string} message
+     */
+    constructor(status, message) {
+        super(`IndexNow responded ${status}: ${message}`);
+        this.name = 'IndexNowError';
+        this.status = status;
+    }
+}
+
+// What IndexNow's status codes mean (https://www.indexnow.org/documentation)
+/** @type {Record<number, string>} */
+const STATUS_MESSAGES = {
+    400: 'Bad request - invalid format',
+    403: 'Forbidden - key not valid (check that the key file is accessible)',
+    422: 'Unprocessable Entity - URLs don\'t belong to the host or the key doesn\'t match',
+    429: 'Too Many Requests - rate limited'
 };
 
-// Parse command line arguments
-const args = process.argv.slice(2);
-const isDryRun = args.includes('--dry-run');
-const customSitemapIndex = args.findIndex(arg => arg === '--sitemap');
-if (customSitemapIndex !== -1 && args[customSitemapIndex + 1]) {
-    CONFIG.sitemapUrl = args[customSitemapIndex + 1];
+/**
+ * Defaults, overridable through INDEXNOW_* variables
+ * @returns {IndexNowConfig}
+ */
+export function getDefaultConfig() {
+    const env = process.env;
+    return {
+        host: env.INDEXNOW_HOST || 'aptidude.in',
+        key: env.INDEXNOW_KEY || '',
+        endpoint: env.INDEXNOW_ENDPOINT || 'https://api.indexnow.org/IndexNow',
+        distDir: 'dist',
+        publicDir: 'public',
+        stateFile: env.INDEXNOW_STATE_FILE || path.join(env.CACHE_DIR || '.cache', 'indexnow-state.json'),
+        batchSize: 500,
+        retries: Number(env.INDEXNOW_RETRIES) || 4,
+        backoffMs: Number(env.INDEXNOW_BACKOFF_MS) || 2000,
+        batchDelayMs: 2000,
+        dryRun: false,
+        full: false
+    };
 }
 
 /**
- * Fetch XML content from a URL
+ * The key of the single key file (<8-128 letters, digits or dashes>.txt) in public/, if any
+ * @param {string} publicDir
+ * @returns {string | undefined}
  */
-async function fetchXml(url) {
-    console.log(`Fetching: ${url}`);
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
-    }
-    return await response.text();
+export function findKeyInPublic(publicDir) {
+    if (!fs.existsSync(publicDir)) return undefined;
+    const keyFiles = fs.readdirSync(publicDir).filter(name => /^[a-zA-Z0-9-]{8,128}\.txt$/.test(name) && name !== 'robots.txt');
+    return keyFiles.length === 1 ? keyFiles[0].slice(0, -'.txt'.length) : undefined;
 }
 
 /**
- * Extract URLs from sitemap XML content
+ * Throw unless public/<key>.txt exists and contains the key
+ * @param {IndexNowConfig} config
  */
-function extractUrlsFromSitemap(xmlContent) {
-    const urls = [];
-    // Match <loc>...</loc> tags
-    const locRegex = /<loc>(.*?)<\/loc>/g;
-    let match;
-    while ((match = locRegex.exec(xmlContent)) !== null) {
-        urls.push(match[1].trim());
+export function verifyKeyFile(config) {
+    if (!config.key) throw new Error('No IndexNow key configured (--key or INDEXNOW_KEY)');
+
+    const keyFile = path.join(config.publicDir, `${config.key}.txt`);
+    if (!fs.existsSync(keyFile)) {
+        throw new Error(`Key file ${keyFile} not found: search engines couldn't verify the submission`);
+    }
+    if (fs.readFileSync(keyFile, 'utf-8').trim() !== config.key) {
+        throw new Error(`Key file ${keyFile} doesn't contain the key ${config.key}`);
     }
-    return urls;
 }
 
 /**
- * Check if a URL is a sitemap (ends with .xml)
+ * @param {string} xml
+ * @returns {string[]}
  */
-function isSitemapUrl(url) {
-    return url.endsWith('.xml');
+function extractLocs(xml) {
+    return Array.from(xml.matchAll(/<loc>(.*?)<\/loc>/g), match => match[1].trim().replace(/&amp;/g, '&'));
 }
 
 /**
- * Recursively fetch all page URLs from sitemaps
+ * Local file of a URL in the build directory (/a/b → <dist>/a/b/index.html)
+ * @param {string} distDir
+ * @param {string} url
  */
-async function getAllUrls(sitemapUrl) {
-    const allUrls = [];
-    const xmlContent = await fetchXml(sitemapUrl);
-    const urls = extractUrlsFromSitemap(xmlContent);
-
-    for (const url of urls) {
-        if (isSitemapUrl(url)) {
-            // It's a nested sitemap, fetch its URLs recursively
-            console.log(`Found nested sitemap: ${url}`);
-            const nestedUrls = await getAllUrls(url);
-            allUrls.push(...nestedUrls);
-        } else {
-            // It's a page URL
-            allUrls.push(url);
-        }
-    }
+function getLocalFile(distDir, url) {
+    const pathname = decodeURIComponent(new URL(url).pathname);
+    return path.extname(pathname)
+        ? path.join(distDir, pathname)
+        : path.join(distDir, pathname, 'index.html');
+}
 
-    return allUrls;
+/**
+ * Hash of the parts of a page search engines index: title, meta description,
+ * canonical and alternate links, and <main> (the whole file when it has none).
+ * Hashed asset URLs and scoped-style attributes are dropped, since they change
+ * with templates and CSS rather than with the page.
+ * @param {string} html
+ * @returns {string}
+ */
+export function getPageFingerprint(html) {
+    const main = /<main\b[\s\S]*<\/main>/.exec(html);
+    const content = main
+        ? [
+            ...(html.match(/<title>[\s\S]*?<\/title>|<meta name="description"[^>]*>|<link rel="(?:canonical|alternate)"[^>]*>/g) || []),
+            main[0]
+        ].join('\n')
+        : html;
+    const stable = content
+        .replace(/\/_astro\/[^"'\s)]+/g, '/_astro/')
+        .replace(/\sdata-astro-cid-[\w-]+(?:="[^"]*")?/g, '');
+    return createHash('sha256').update(stable).digest('hex').slice(0, 16);
 }
 
 /**
- * Submit URLs to IndexNow
+ * Every page URL in the local sitemaps, with its fingerprint
+ * @param {string} distDir
+ * @returns {Record<string, string>}
  */
-async function submitToIndexNow(urls) {
-    if (urls.length === 0) {
-        console.log('No URLs to submit.');
-        return;
+export function collectPages(distDir) {
+    const indexFile = path.join(distDir, 'sitemap-index.xml');
+    if (!fs.existsSync(indexFile)) {
+        throw new Error(`${indexFile} not found (run a build first)`);
     }
 
-    // Split into batches if needed
-    const batches = [];
-    for (let i = 0; i < urls.length; i += CONFIG.batchSize) {
-        batches.push(urls.slice(i, i + CONFIG.batchSize));
+    /** @type {Record<string, string>} */
+    const pages = {};
+    for (const sitemapUrl of extractLocs(fs.readFileSync(indexFile, 'utf-8'))) {
+        const sitemapFile = getLocalFile(distDir, sitemapUrl);
+        if (!fs.existsSync(sitemapFile)) {
+            console.warn(`  ⚠ Sitemap ${sitemapUrl} is missing from ${distDir}`);
+            continue;
+        }
+        for (const url of extractLocs(fs.readFileSync(sitemapFile, 'utf-8'))) {
+            const file = getLocalFile(distDir, url);
+            // Pages served by the app (not part of this build) are submitted once
+            pages[url] = fs.existsSync(file)
+                ? getPageFingerprint(fs.readFileSync(file, 'utf-8'))
+                : 'external';
+        }
     }
+    return pages;
+}
 
-    console.log(`\nSubmitting ${urls.length} URLs in ${batches.length} batch(es)...`);
+/**
+ * Read the state of the previous submissions; empty when missing or written
+ * for another host or state version
+ * @param {IndexNowConfig} config
+ * @returns {IndexNowState}
+ */
+export function readState(config) {
+    /** @type {IndexNowState} */
+    const empty = { version: STATE_VERSION, host: config.host, submittedAt: null, pages: {} };
+    if (config.full || !fs.existsSync(config.stateFile)) return empty;
 
-    for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        console.log(`\nBatch ${i + 1}/${batches.length}: ${batch.length} URLs`);
+    try {
+        const state = JSON.parse(fs.readFileSync(config.stateFile, 'utf-8'));
+        return state.version === STATE_VERSION && state.host === config.host ? state : empty;
+    } catch (error) {
+        console.warn(`  ⚠ Could not read ${config.stateFile}, starting over:`, error);
+        return empty;
+    }
+}
 
-        const payload = {
-            host: CONFIG.host,
-            key: CONFIG.key,
-            keyLocation: CONFIG.keyLocation,
-            urlList: batch,
-        };
+/**
+ * @param {IndexNowConfig} config
+ * @param {IndexNowState} state
+ */
+function writeState(config, state) {
+    fs.mkdirSync(path.dirname(config.stateFile), { recursive: true });
+    const tmpFile = `${config.stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpFile, config.stateFile);
+}
 
-        if (isDryRun) {
-            console.log('DRY RUN - Would submit:', JSON.stringify(payload, null, 2));
-            continue;
-        }
+/**
+ * Pages added, changed or removed since the submitted state
+ * @param {Record<string, string>} submitted
+ * @param {Record<string, string>} current
+ * @returns {PageChanges}
+ */
+export function diffPages(submitted, current) {
+    /** @type {PageChanges} */
+    const changes = { added: [], changed: [], removed: [] };
+    for (const [url, hash] of Object.entries(current)) {
+        if (!(url in submitted)) changes.added.push(url);
+        else if (submitted[url] !== hash) changes.changed.push(url);
+    }
+    for (const url of Object.keys(submitted)) {
+        if (!(url in current)) changes.removed.push(url);
+    }
+    return changes;
+}
+
+/** @param {number} ms */
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
 
+/**
+ * Delay before the given retry (1-based): Retry-After when sent, else
+ * exponential backoff
+ * @param {IndexNowConfig} config
+ * @param {number} attempt
+ * @param {string | null} retryAfter
+ */
+function getBackoffMs(config, attempt, retryAfter) {
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    if (Number.isFinite(seconds)) return Math.min(seconds * 1000, 60000);
+    return config.backoffMs * 2 ** (attempt - 1);
+}
+
+/**
+ * POST one batch, retrying 429, 5xx and network errors
+ * @param {IndexNowConfig} config
+ * @param {string[]} urlList
+ */
+export async function postBatch(config, urlList) {
+    const body = JSON.stringify({
+        host: config.host,
+        key: config.key,
+        keyLocation: `https://${config.host}/${config.key}.txt`,
+        urlList
+    });
+
+    for (let attempt = 0; ; attempt++) {
+        /** @type {string | null} */
+        let retryAfter = null;
+        /** @type {string} */
+        let failure;
         try {
-            const response = await fetch(CONFIG.indexNowEndpoint, {
+            const response = await fetch(config.endpoint, {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json; charset=utf-8',
-                },
-                body: JSON.stringify(payload),
+                headers: { 'Content-Type': 'application/json; charset=utf-8' },
+                body
             });
+            if (response.status === 200 || response.status === 202) return response.status;
 
-            const statusCode = response.status;
-            
-            // Handle response codes as per IndexNow documentation
-            switch (statusCode) {
-                case 200:
-                    console.log(`✅ Batch ${i + 1}: Successfully submitted ${batch.length} URLs`);
-                    break;
-                case 202:
-                    console.log(`✅ Batch ${i + 1}: Accepted - URLs received and will be processed`);
-                    break;
-                case 400:
-                    console.error(`❌ Batch ${i + 1}: Bad request - Invalid format`);
-                    break;
-                case 403:
-                    console.error(`❌ Batch ${i + 1}: Forbidden - Key not valid (check if key file is accessible)`);
-                    break;
-                case 422:
-                    console.error(`❌ Batch ${i + 1}: Unprocessable Entity - URLs don't belong to host or key mismatch`);
-                    break;
-                case 429:
-                    console.error(`❌ Batch ${i + 1}: Too Many Requests - Rate limited, try again later`);
-                    break;
-                default:
-                    const responseText = await response.text();
-                    console.log(`Batch ${i + 1}: Response ${statusCode} - ${responseText}`);
+            const message = STATUS_MESSAGES[response.status] || (await response.text()).slice(0, 200) || response.statusText;
+            if (response.status !== 429 && response.status < 500) {
+                throw new IndexNowError(response.status, message);
             }
+            retryAfter = response.headers.get('retry-after');
+            failure = `${response.status} ${message}`;
         } catch (error) {
-            console.error(`❌ Batch ${i + 1}: Error submitting - ${error.message}`);
+            if (error instanceof IndexNowError) throw error;
+            failure = error instanceof Error ? error.message : String(error);
+            if (attempt >= config.retries) throw error;
         }
 
-        // Delay between batches to avoid rate limiting (2 seconds)
-        if (i < batches.length - 1) {
-            console.log('Waiting 2 seconds before next batch...');
-            await new Promise(resolve => setTimeout(resolve, 2000));
+        if (attempt >= config.retries) {
+            throw new Error(`IndexNow still failing after ${config.retries} retries: ${failure}`);
         }
+        const delay = getBackoffMs(config, attempt + 1, retryAfter);
+        console.log(`  ↻ ${failure}; retrying in ${delay}ms`);
+        await sleep(delay);
     }
 }
 
 /**
- * Alternative: Submit URLs from local dist folder (after build)
+ * Submit the pages that changed since the previous successful submission.
+ * The state is saved after every accepted batch, so a failed run only
+ * resubmits what wasn't accepted.
+ * @param {IndexNowConfig} config
+ * @returns {Promise<SubmissionResult>}
  */
-async function getUrlsFromLocalSitemap() {
-    const distPath = path.join(__dirname, '../dist');
-    const sitemapIndexPath = path.join(distPath, 'sitemap-index.xml');
-    
-    if (!fs.existsSync(sitemapIndexPath)) {
-        // Try single sitemap
-        const sitemapPath = path.join(distPath, 'sitemap-0.xml');
-        if (fs.existsSync(sitemapPath)) {
-            const content = fs.readFileSync(sitemapPath, 'utf-8');
-            return extractUrlsFromSitemap(content);
-        }
-        return null;
+export async function submitIndexNow(config) {
+    verifyKeyFile(config);
+
+    const current = collectPages(config.distDir);
+    const state = readState(config);
+    const changes = diffPages(state.pages, current);
+    const urls = [...changes.added, ...changes.changed, ...changes.removed];
+
+    console.log(`📋 ${Object.keys(current).length} pages in ${config.distDir}: ` +
+        `${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed`);
+
+    if (urls.length === 0) {
+        console.log('✅ Nothing changed since the last submission');
+        return { ...changes, submitted: 0 };
+    }
+    if (config.dryRun) {
+        console.log('⚠️  DRY RUN - would submit:');
+        for (const url of urls) console.log(`   ${url}`);
+        return { ...changes, submitted: 0 };
     }
 
-    const allUrls = [];
-    const indexContent = fs.readFileSync(sitemapIndexPath, 'utf-8');
-    const sitemapUrls = extractUrlsFromSitemap(indexContent);
-
-    for (const sitemapUrl of sitemapUrls) {
-        // Convert URL to local path
-        const filename = sitemapUrl.split('/').pop();
-        const localPath = path.join(distPath, filename);
-        
-        if (fs.existsSync(localPath)) {
-            const content = fs.readFileSync(localPath, 'utf-8');
-            const urls = extractUrlsFromSitemap(content);
-            allUrls.push(...urls.filter(url => !url.endsWith('.xml')));
+    let submitted = 0;
+    for (let i = 0; i < urls.length; i += config.batchSize) {
+        const batch = urls.slice(i, i + config.batchSize);
+        const batchNumber = i / config.batchSize + 1;
+        const status = await postBatch(config, batch);
+        console.log(`✅ Batch ${batchNumber}: ${batch.length} URLs ${status === 202 ? 'accepted' : 'submitted'}`);
+
+        for (const url of batch) {
+            if (url in current) state.pages[url] = current[url];
+            else delete state.pages[url];
         }
+        state.submittedAt = new Date().toISOString();
+        writeState(config, state);
+        submitted += batch.length;
+
+        if (i + config.batchSize < urls.length) await sleep(config.batchDelayMs);
     }
 
-    return allUrls;
+    return { ...changes, submitted };
 }
 
 /**
- * Main function
+ * @param {string[]} args
+ * @returns {IndexNowConfig}
  */
-async function main() {
-    console.log('='.repeat(60));
-    console.log('IndexNow URL Submission for aptidude.in');
-    console.log('='.repeat(60));
-    console.log(`\nKey: ${CONFIG.key}`);
-    console.log(`Key Location: ${CONFIG.keyLocation}`);
-    console.log(`IndexNow Endpoint: ${CONFIG.indexNowEndpoint}`);
-    
-    if (isDryRun) {
-        console.log('\n⚠️  DRY RUN MODE - No URLs will be submitted\n');
-    }
+function parseArgs(args) {
+    const config = getDefaultConfig();
+    /** @param {string} name */
+    const value = name => {
+        const index = args.indexOf(name);
+        return index !== -1 ? args[index + 1] : undefined;
+    };
 
-    let urls;
+    config.dryRun = args.includes('--dry-run');
+    config.full = args.includes('--full');
+    config.distDir = value('--dist') || config.distDir;
+    config.host = value('--host') || config.host;
+    config.key = value('--key') || config.key || findKeyInPublic(config.publicDir) || '';
+    config.endpoint = value('--endpoint') || config.endpoint;
+    config.stateFile = value('--state') || config.stateFile;
+    return config;
+}
 
-    // First try to get URLs from local dist folder (if available)
-    console.log('\nChecking for local sitemap in dist folder...');
-    urls = await getUrlsFromLocalSitemap();
+async function main() {
+    const config = parseArgs(process.argv.slice(2));
 
-    if (urls && urls.length > 0) {
-        console.log(`Found ${urls.length} URLs from local dist folder`);
-    } else {
-        // Fetch from live sitemap
-        console.log('No local sitemap found, fetching from live site...');
-        try {
-            urls = await getAllUrls(CONFIG.sitemapUrl);
-            console.log(`Found ${urls.length} URLs from live sitemap`);
-        } catch (error) {
-            console.error(`Error fetching sitemap: ${error.message}`);
-            console.log('\nTrying alternative sitemap URL: https://aptidude.in/sitemap-0.xml');
-            try {
-                urls = await getAllUrls('https://aptidude.in/sitemap-0.xml');
-                console.log(`Found ${urls.length} URLs from alternative sitemap`);
-            } catch (error2) {
-                console.error(`Error: ${error2.message}`);
-                process.exit(1);
-            }
-        }
+    console.log(`🔔 IndexNow submission for ${config.host}`);
+    console.log(`   Endpoint: ${config.endpoint}`);
+    console.log(`   Key location: https://${config.host}/${config.key}.txt`);
+
+    const result = await submitIndexNow(config);
+    if (result.submitted > 0) {
+        console.log(`\n✅ Submitted ${result.submitted} URLs; state saved to ${config.stateFile}`);
     }
+}
 
-    // Display all URLs
-    console.log('\n📋 URLs to submit:');
-    console.log('-'.repeat(60));
-    urls.forEach((url, index) => {
-        console.log(`${(index + 1).toString().padStart(4)}. ${url}`);
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main().catch(error => {
+        console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
     });
-    console.log('-'.repeat(60));
-    console.log(`Total: ${urls.length} URLs\n`);
-
-    // Submit to IndexNow
-    await submitToIndexNow(urls);
-
-    console.log('\n' + '='.repeat(60));
-    console.log('Done!');
-    console.log('\n📌 Next steps:');
-    console.log('1. Verify your key file is accessible at:');
-    console.log(`   ${CONFIG.keyLocation}`);
-    console.log('2. Check Bing Webmaster Tools to verify URLs are received:');
-    console.log('   https://www.bing.com/webmasters');
-    console.log('='.repeat(60));
 }
-
-main().catch(console.error);
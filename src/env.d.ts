@@ -2,6 +2,24 @@
 
 interface ImportMetaEnv {
     readonly API_URL?: string;
+    readonly DATA_SOURCE?: 'api' | 'fixtures';
+    readonly FIXTURES_DIR?: string;
+    readonly QUESTIONS_OFFLINE?: string;
+    readonly QUESTIONS_FULL_REFRESH?: string;
+    readonly QUESTIONS_SNAPSHOT_MAX_AGE_HOURS?: string;
+    readonly HTTP_TIMEOUT_MS?: string;
+    readonly HTTP_RETRIES?: string;
+    readonly HTTP_BACKOFF_MS?: string;
+    readonly HTTP_CONCURRENCY?: string;
+    readonly SLUG_REGISTRY_PATH?: string;
+    readonly SLUG_ACCEPT_CHANGES?: string;
+    readonly SITEMAP_MAX_URLS?: string;
+    readonly STRUCTURED_DATA_STRICT?: string;
+    readonly TOPIC_PAGE_SIZE?: string;
+    readonly LANDING_MIN_QUESTIONS?: string;
+    readonly BUILD_MODE?: 'full' | 'incremental';
+    readonly INCREMENTAL_BUILD_OUT_DIR?: string;
+    readonly REDIRECT_ENV?: string;
 }
 
 interface ImportMeta {
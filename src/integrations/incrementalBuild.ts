@@ -0,0 +1,177 @@
+// Incremental Build Integration
+// BUILD_MODE=incremental keeps the previous build output (instead of emptying
+// the build directory) when its manifest in .cache/build-manifests/ describes
+// it and was built from the same code (see getCodeFingerprint), so pages can
+// skip unchanged routes (see utils/buildManifest.ts). After
+// every build it removes output files that are no longer generated, writes the
+// next manifest and the changed-URL artifact (reports/changed-urls.json/.txt).
+import type { AstroIntegration } from 'astro';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { readEnv } from '../utils/env';
+import { writeBuildReport } from '../utils/buildReport';
+import {
+    BUILD_MANIFEST_VERSION,
+    clearPendingBuild,
+    diffQuestions,
+    getBuildSource,
+    getCodeFingerprint,
+    readBuildManifest,
+    readPendingBuild,
+    writeBuildManifest,
+    type BuildManifest,
+    type BuildManifestFile
+} from '../utils/buildManifest';
+
+const SITE_URL = 'https://aptidude.in';
+
+/**
+ * Route path of an output file: questions/x/index.html → /questions/x,
+ * 404.html → /404, og/questions/x.png → /og/questions/x.png
+ */
+function getRoutePath(file: string): string {
+    const route = `/${file.replace(/(^|\/)index\.html$/, '').replace(/\.html$/, '')}`;
+    return route.length > 1 ? route.replace(/\/+$/, '') : route;
+}
+
+const hashFile = (file: string): string =>
+    createHash('sha256').update(fs.readFileSync(file)).digest('hex').slice(0, 16);
+
+/**
+ * Reason the previous output can't be reused, or null when it can
+ */
+function getFullBuildReason(manifest: BuildManifest | null, outDir: string): string | null {
+    if (!manifest) return 'no build manifest';
+    if (manifest.outDir !== outDir) return `previous build went to ${manifest.outDir}`;
+    if (manifest.source !== getBuildSource()) return `previous build used ${manifest.source}`;
+    if (manifest.fingerprint !== getCodeFingerprint()) return 'code or data files changed since the previous build';
+    if (!fs.existsSync(path.resolve(outDir, 'index.html'))) return `${outDir} holds no previous build`;
+    return null;
+}
+
+/**
+ * Remove a file and the directories it leaves empty, up to the build directory
+ */
+function removeOutputFile(outDir: string, file: string): void {
+    const fullPath = path.join(outDir, file);
+    fs.rmSync(fullPath, { force: true });
+    let dir = path.dirname(fullPath);
+    while (dir.startsWith(outDir) && dir !== outDir && fs.readdirSync(dir).length === 0) {
+        fs.rmdirSync(dir);
+        dir = path.dirname(dir);
+    }
+}
+
+export default function incrementalBuild(): AstroIntegration {
+    let incremental = false;
+    let outDir = 'dist';
+
+    return {
+        name: 'aptidude:incremental-build',
+        hooks: {
+            'astro:config:setup': ({ command, config, updateConfig, logger }) => {
+                if (command !== 'build') return;
+
+                outDir = path.relative(process.cwd(), fileURLToPath(config.outDir)) || '.';
+                clearPendingBuild();
+                incremental = false;
+                delete process.env.INCREMENTAL_BUILD_OUT_DIR;
+                if (readEnv('BUILD_MODE') !== 'incremental') return;
+
+                const reason = getFullBuildReason(readBuildManifest(outDir), outDir);
+                if (reason) {
+                    logger.warn(`Full build: ${reason}`);
+                    return;
+                }
+
+                incremental = true;
+                // Read by isIncrementalBuild() while pages are generated
+                process.env.INCREMENTAL_BUILD_OUT_DIR = outDir;
+                updateConfig({ vite: { build: { emptyOutDir: false } } });
+                logger.info(`Incremental build over ${outDir}`);
+            },
+
+            'astro:build:done': ({ dir, assets, logger }) => {
+                const buildDir = fileURLToPath(dir);
+                const previous = readBuildManifest(outDir);
+                const pending = readPendingBuild();
+                const skipped = new Set(pending.skipped);
+
+                // Files written by this build
+                const files: Record<string, BuildManifestFile> = {};
+                for (const urls of assets.values()) {
+                    for (const url of urls) {
+                        const fullPath = fileURLToPath(url);
+                        if (!fs.existsSync(fullPath)) continue;
+                        const file = path.relative(buildDir, fullPath).split(path.sep).join('/');
+                        const route = getRoutePath(file);
+                        files[route] = { file, hash: hashFile(fullPath), signature: pending.signatures[route] };
+                    }
+                }
+
+                const generated = Object.keys(files).length;
+
+                // Unchanged pages kept from the previous build
+                let kept = 0;
+                for (const route of skipped) {
+                    const entry = previous?.files[route];
+                    if (entry && !files[route] && fs.existsSync(path.join(buildDir, entry.file))) {
+                        files[route] = entry;
+                        kept++;
+                    }
+                }
+
+                // A manifest from other data isn't a baseline for the changed URLs
+                const baseline = previous && previous.source === getBuildSource() ? previous : null;
+                const oldFiles = baseline?.files || {};
+                const removedRoutes = Object.keys(oldFiles).filter(route => !files[route]);
+                if (incremental) {
+                    for (const route of removedRoutes) removeOutputFile(buildDir, oldFiles[route].file);
+                }
+
+                // Public URLs: HTML pages only (no images, feeds or index shards)
+                const isPage = (route: string, entry: BuildManifestFile) => entry.file.endsWith('.html') && route !== '/404';
+                const toUrl = (route: string) => `${SITE_URL}${route === '/' ? '' : route}`;
+                const added: string[] = [];
+                const changed: string[] = [];
+                for (const [route, entry] of Object.entries(files)) {
+                    if (!isPage(route, entry)) continue;
+                    if (!oldFiles[route]) added.push(toUrl(route));
+                    else if (oldFiles[route].hash !== entry.hash) changed.push(toUrl(route));
+                }
+                const removed = removedRoutes.filter(route => isPage(route, oldFiles[route])).map(toUrl);
+
+                writeBuildManifest({
+                    version: BUILD_MANIFEST_VERSION,
+                    outDir,
+                    source: getBuildSource(),
+                    // Taken after the build, which may have pinned new slugs in src/data
+                    fingerprint: getCodeFingerprint(),
+                    builtAt: new Date().toISOString(),
+                    questions: pending.questions,
+                    files
+                });
+                clearPendingBuild();
+
+                writeBuildReport('changed-urls', {
+                    mode: incremental ? 'incremental' : 'full',
+                    previousBuild: baseline?.builtAt ?? null,
+                    questions: diffQuestions(baseline?.questions || {}, pending.questions),
+                    files: { generated, kept, removed: removedRoutes.length },
+                    added,
+                    changed,
+                    removed
+                });
+                const listFile = path.resolve(process.cwd(), readEnv('REPORT_DIR') || 'reports', 'changed-urls.txt');
+                fs.writeFileSync(listFile, [...added, ...changed, ...removed].map(url => `${url}\n`).join(''));
+
+                logger.info(
+                    `${generated} files generated, ${kept} kept, ${removedRoutes.length} removed; ` +
+                    `${added.length} added, ${changed.length} changed, ${removed.length} removed URLs`
+                );
+            }
+        }
+    };
+}
@@ -0,0 +1,74 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { fetchAllQuestions, fetchAllCourses, buildQuestionIndexes } from '../../utils/dataFetcher';
+import { generateAllQuestionSEO, createSlug } from '../../utils/seoGenerator';
+import {
+  getQuestionOgCard,
+  getExamTopicOgCard,
+  getLearnTopicOgCard,
+  renderOgImage,
+  reportOgMathFallbacks,
+  toCardText,
+  type OgCard
+} from '../../utils/ogImage';
+import { selectChangedPages, pageSignature } from '../../utils/buildManifest';
+
+// One Open Graph card per question, exam-topic and learn-topic page.
+// Routes mirror the page URLs: /og/questions/<slug>.png, /og/learn/<a>/<b>.png
+export const getStaticPaths = (async () => {
+  const [questions, courses] = await Promise.all([fetchAllQuestions(), fetchAllCourses()]);
+  const seoMap = generateAllQuestionSEO(questions);
+  const indexes = buildQuestionIndexes(questions);
+
+  const cards: Array<{ path: string; card: OgCard }> = [];
+  // Pages whose card shows a generic title (or no description) over a formula
+  const mathFallbacks: string[] = [];
+
+  for (const question of questions) {
+    const seo = seoMap.get(question.questionNumber);
+    if (!seo) continue;
+    cards.push({ path: `questions/${seo.slug}`, card: getQuestionOgCard(question) });
+    if (question.statementType === 'text' && toCardText(question.statement) === null) {
+      mathFallbacks.push(`/questions/${seo.slug}`);
+    }
+  }
+
+  for (const [key, topicQuestions] of indexes.byExamAndTopic) {
+    const [examName, topicName] = key.split('::');
+    cards.push({
+      path: `learn/${createSlug(examName)}/${createSlug(topicName)}`,
+      card: getExamTopicOgCard(examName, topicName, topicQuestions.length)
+    });
+  }
+
+  for (const course of courses) {
+    for (const subject of course.subjects || []) {
+      for (const { topic } of subject.topics || []) {
+        if (!topic.isPublished) continue;
+        cards.push({
+          path: `learn/${course.slug}/${topic.slug}`,
+          card: getLearnTopicOgCard(course.title, topic.title, topic.description)
+        });
+        if (topic.description && toCardText(topic.description) === null) {
+          mathFallbacks.push(`/learn/${course.slug}/${topic.slug}`);
+        }
+      }
+    }
+  }
+
+  reportOgMathFallbacks(mathFallbacks);
+
+  // A card only depends on its content; unchanged cards are kept in incremental builds
+  return selectChangedPages(cards, ({ path }) => `/og/${path}.png`, ({ card }) => pageSignature(card))
+    .map(({ path, card }) => ({ params: { path }, props: { card } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const { png } = await renderOgImage((props as { card: OgCard }).card);
+
+  return new Response(new Uint8Array(png), {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    }
+  });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getSearchIndex } from '../../../utils/searchIndex';
+import type { SearchDocument } from '../../../types';
+
+export const getStaticPaths = (async () => {
+  const { docChunks } = await getSearchIndex();
+  return docChunks.map((docs, chunk) => ({
+    params: { chunk: String(chunk) },
+    props: { docs }
+  }));
+}) satisfies GetStaticPaths;
+
+// Result documents [chunk × docChunkSize, (chunk + 1) × docChunkSize)
+export const GET: APIRoute = async ({ props }) => {
+  const { docs } = props as { docs: SearchDocument[] };
+
+  return new Response(JSON.stringify(docs), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { getSearchIndex } from '../../utils/searchIndex';
+
+// Per-document exam/topic/difficulty ids, fetched when a filter is active
+export const GET: APIRoute = async () => {
+  const { facets } = await getSearchIndex();
+
+  return new Response(JSON.stringify(facets), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { getSearchIndex } from '../../utils/searchIndex';
+
+// Entry point of the static search index: shard list, doc chunking, facets
+export const GET: APIRoute = async () => {
+  const { manifest } = await getSearchIndex();
+
+  return new Response(JSON.stringify(manifest), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getSearchIndex } from '../../../utils/searchIndex';
+import type { SearchTermShard } from '../../../types';
+
+export const getStaticPaths = (async () => {
+  const { shards } = await getSearchIndex();
+  return Array.from(shards, ([shard, terms]) => ({
+    params: { shard },
+    props: { terms }
+  }));
+}) satisfies GetStaticPaths;
+
+// Postings of every term starting with the shard prefix
+export const GET: APIRoute = async ({ props }) => {
+  const { terms } = props as { terms: SearchTermShard };
+
+  return new Response(JSON.stringify(terms), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
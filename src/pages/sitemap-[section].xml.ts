@@ -0,0 +1,22 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getSitemapSections, renderUrlset, type SitemapSection } from '../utils/sitemap';
+
+export const getStaticPaths = (async () => {
+  const sections = await getSitemapSections();
+  return sections.map(section => ({
+    params: { section: section.name },
+    props: { section }
+  }));
+}) satisfies GetStaticPaths;
+
+// Child sitemap for one section (pages, learn, exams, tags, pyq, questions-N)
+export const GET: APIRoute = async ({ props }) => {
+  const { section } = props as { section: SitemapSection };
+
+  return new Response(renderUrlset(section.entries), {
+    headers: {
+      'Content-Type': 'application/xml',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
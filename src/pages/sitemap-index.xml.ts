@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { getSitemapSections, renderSitemapIndex } from '../utils/sitemap';
+
+// Sitemap index: lists the per-section child sitemaps (see utils/sitemap.ts)
+export const GET: APIRoute = async () => {
+  const sections = await getSitemapSections();
+
+  return new Response(renderSitemapIndex(sections), {
+    headers: {
+      'Content-Type': 'application/xml',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
@@ -1,12 +1,68 @@
 // SEO Types and Interfaces
 
+export type ContentType = 'text' | 'image';
+
+/**
+ * Content languages (see utils/i18n.ts). English is the default; other
+ * locales are published under /<locale>/ for translated content only.
+ */
+export type Locale = 'en' | 'hi';
+
+export interface QuestionOption {
+    type: ContentType;
+    content: string;
+}
+
+/**
+ * Answer as stored by the backend: an option index/letter/content for MCQs,
+ * a list of those for Multiple Correct, or a number for Integer questions
+ */
+export type QuestionAnswer = string | number | Array<string | number>;
+
+/**
+ * A question exactly as the API returns it, before validation
+ */
+export type RawQuestion = Record<string, any>;
+
+/**
+ * The exam paper a question was asked in (previous year questions)
+ */
+export interface QuestionPaper {
+    year: number;
+    /** Paper title as the API names it, e.g. "CAT 2023 Slot 1" */
+    name?: string;
+    /** Slot/shift of the sitting, e.g. "Slot 1", "Shift 2" */
+    shift?: string;
+    /** Date the paper was held (ISO) */
+    date?: string;
+    /** Question's position in the paper (1-based) */
+    position?: number;
+}
+
+/**
+ * A question's text in another locale. Options keep the original order so the
+ * answer key applies unchanged; image statements are shared, not translated.
+ */
+export interface QuestionTranslation {
+    /** Omitted for image statements */
+    statement?: string;
+    passage?: string;
+    options?: QuestionOption[];
+    explanation?: string;
+}
+
+/**
+ * A validated, normalized question (see utils/validation.ts)
+ */
 export interface Question {
+    _id?: string;
     questionNumber: number;
     statement: string;
+    statementType: ContentType;
     passage?: string;
     type: string;
-    options?: Array<{ type?: string; content: string }>;
-    answer?: any;
+    options?: QuestionOption[];
+    answer?: QuestionAnswer;
     explanation: string;
     exam?: string;
     subExam?: string;
@@ -15,10 +71,61 @@ export interface Question {
     tags?: string[];
     category?: string;
     topic?: string;
+    /** Set when the question comes from a known past paper */
+    paper?: QuestionPaper;
+    /** Translations by locale; fields left out fall back to the English text */
+    translations?: Partial<Record<Locale, QuestionTranslation>>;
     updatedAt: string;
     createdAt: string;
 }
 
+// Learning content types (normalized, see utils/validation.ts)
+export interface LearningCourse {
+    _id: string;
+    title: string;
+    slug: string;
+    description?: string;
+    thumbnail?: string;
+    isPublished: boolean;
+    subjects?: LearningSubject[];
+    updatedAt?: string;
+}
+
+export interface LearningSubject {
+    _id: string;
+    title: string;
+    slug: string;
+    description?: string;
+    topics?: { topic: LearningTopic; order: number }[];
+}
+
+/** A heading of a lesson: its anchor id, plain text and level (1-6) */
+export interface TopicHeading {
+    id: string;
+    text: string;
+    level: number;
+}
+
+/** A lesson in another locale; headings are derived from the content when missing */
+export interface LearningTopicTranslation {
+    title: string;
+    description?: string;
+    content?: string;
+    headings?: TopicHeading[];
+}
+
+export interface LearningTopic {
+    _id: string;
+    title: string;
+    slug: string;
+    content?: string;
+    description?: string;
+    headings?: TopicHeading[];
+    isPublished: boolean;
+    translations?: Partial<Record<Locale, LearningTopicTranslation>>;
+    updatedAt?: string;
+}
+
 export interface QuestionSEO {
     slug: string;
     title: string;
@@ -29,9 +136,120 @@ export interface QuestionSEO {
     schema: any;
 }
 
-export interface ExamKeywordMap {
-    [exam: string]: string[] | {
-        [subExam: string]: string[];
-        _default: string[];
+/**
+ * Question SEO overrides for an exam or sub-exam (see data/exam-seo.json).
+ * Templates use {placeholders}, see utils/examSeoConfig.ts.
+ */
+export interface ExamSeoOverrides {
+    keywords?: string[];
+    titleTemplate?: string;
+    descriptionTemplate?: string;
+}
+
+export interface ExamSeoEntry extends ExamSeoOverrides {
+    subExams?: Record<string, ExamSeoOverrides>;
+}
+
+export interface ExamSeoTemplates {
+    titleTemplate: string;
+    descriptionTemplate: string;
+}
+
+/**
+ * Question SEO for a translated locale. Templates never fall back to the
+ * English ones; keywords fall back to the English lists.
+ */
+export interface ExamSeoLocaleConfig {
+    universalKeywords?: string[];
+    defaults: ExamSeoTemplates;
+    exams?: Record<string, ExamSeoEntry>;
+}
+
+export interface ExamSeoConfig {
+    /** Appended to every question's keywords */
+    universalKeywords: string[];
+    defaults: ExamSeoTemplates;
+    exams: Record<string, ExamSeoEntry>;
+    /** Keyed by translated locale (every one must be present) */
+    locales: Partial<Record<Locale, ExamSeoLocaleConfig>>;
+}
+
+/**
+ * When a static page sends the visitor on to the app (see
+ * data/redirect-policy.json): right away, after `delayMs`, or only when they
+ * click a CTA
+ */
+export type RedirectPolicy =
+    | { mode: 'immediate' }
+    | { mode: 'delayed'; delayMs: number }
+    | { mode: 'cta' };
+
+/** Pages with their own redirect policy */
+export type RedirectRoute = 'question' | 'lesson';
+
+export interface RedirectPolicyConfig {
+    /** Used for every route an environment leaves out */
+    defaults: Record<RedirectRoute, RedirectPolicy>;
+    /** Keyed by environment name (see utils/redirectPolicy.ts) */
+    environments: Record<string, Partial<Record<RedirectRoute, RedirectPolicy>>>;
+}
+
+/**
+ * Question topics/categories practised in a lesson (see data/topic-taxonomy.json)
+ */
+export interface TopicTaxonomyLesson {
+    topics?: string[];
+    categories?: string[];
+}
+
+export interface TopicTaxonomy {
+    /** Alternative question topic names → the name used in `lessons` */
+    aliases: Record<string, string>;
+    /** Keyed by LearningTopic slug */
+    lessons: Record<string, TopicTaxonomyLesson>;
+}
+
+/**
+ * One search result (see utils/searchIndex.ts); stored in chunked doc files
+ */
+export interface SearchDocument {
+    kind: 'question' | 'lesson';
+    title: string;
+    url: string;
+    snippet: string;
+    exam?: string;
+    topic?: string;
+    difficulty?: string;
+}
+
+/**
+ * /search-index/manifest.json: what the search page needs before loading shards
+ */
+export interface SearchManifest {
+    version: number;
+    documents: number;
+    /** Documents per /search-index/docs/<n>.json file */
+    docChunkSize: number;
+    /** Term shard names (/search-index/terms/<shard>.json) */
+    shards: string[];
+    facets: {
+        kinds: Array<SearchDocument['kind']>;
+        exams: string[];
+        topics: string[];
+        difficulties: string[];
     };
 }
+
+/**
+ * /search-index/facets.json: per-document facet ids (index into the manifest
+ * facet lists, -1 for none), loaded only when a filter is active
+ */
+export interface SearchFacetIndex {
+    kinds: number[];
+    exams: number[];
+    topics: number[][];
+    difficulties: number[];
+}
+
+/** Term → [document id, score] postings of one shard */
+export type SearchTermShard = Record<string, Array<[number, number]>>;
@@ -0,0 +1,58 @@
+// Answer Key
+// Resolves the stored `answer` of a question (option index, option letter,
+// option content or integer value) into something pages can display.
+import type { Question } from '../types';
+
+/**
+ * Option label for a 0-based index (A, B, C...)
+ */
+export const optionLabel = (index: number): string => String.fromCharCode(65 + index);
+
+/**
+ * Resolve one stored answer value to an option index, or -1
+ */
+function resolveOptionIndex(value: string | number, question: Question): number {
+    const options = question.options || [];
+    const inRange = (index: number) => Number.isInteger(index) && index >= 0 && index < options.length;
+
+    if (typeof value === 'number') {
+        return inRange(value) ? value : -1;
+    }
+
+    const text = value.trim();
+    const byContent = options.findIndex(opt => opt.content.trim() === text);
+    if (byContent !== -1) return byContent;
+
+    if (/^[A-Za-z]$/.test(text)) {
+        const index = text.toUpperCase().charCodeAt(0) - 65;
+        if (inRange(index)) return index;
+    }
+
+    const asNumber = Number(text);
+    return text !== '' && inRange(asNumber) ? asNumber : -1;
+}
+
+/**
+ * 0-based indexes of the correct options (empty when the answer is missing,
+ * unresolvable or the question has no options)
+ */
+export function getCorrectOptionIndexes(question: Question): number[] {
+    if (question.answer === undefined || !question.options?.length) return [];
+
+    const values = Array.isArray(question.answer) ? question.answer : [question.answer];
+    const indexes = values
+        .map(value => resolveOptionIndex(value, question))
+        .filter(index => index !== -1);
+
+    return [...new Set(indexes)].sort((a, b) => a - b);
+}
+
+/**
+ * Correct value of an Integer question, or null
+ */
+export function getIntegerAnswer(question: Question): number | null {
+    if (question.type !== 'Integer') return null;
+    const value = Array.isArray(question.answer) ? question.answer[0] : question.answer;
+    const number = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
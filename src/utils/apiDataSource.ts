@@ -0,0 +1,222 @@
+// API Data Source
+// Reads questions and learning content from the backend HTTP API, keeping an
+// on-disk snapshot of questions for incremental refreshes and offline builds.
+import type { RawQuestion } from '../types';
+import type { DataSource, RawRecord } from './dataSource';
+import {
+  readSnapshot,
+  writeSnapshot,
+  mergeQuestions,
+  getSnapshotAgeHours,
+  getSnapshotPath
+} from './questionSnapshot';
+import { getEnvFlag, getEnvNumber } from './env';
+import { fetchJson, mapWithConcurrency, isNetworkError, HttpError, DEFAULT_CONCURRENCY } from './http';
+
+// API base URL - uses environment variable or defaults
+const getApiBase = (): string => {
+  // Check for Vite/Astro environment variable
+  if (typeof import.meta !== 'undefined' && import.meta.env?.API_URL) {
+    return import.meta.env.API_URL;
+  }
+  // Check for Node.js environment variable
+  if (typeof process !== 'undefined' && process.env?.API_URL) {
+    return process.env.API_URL;
+  }
+  // Default to localhost for development
+  return 'http://localhost:8080';
+};
+
+const API_BASE = getApiBase();
+
+// Build entirely from the on-disk snapshot, never touching the API
+const OFFLINE_MODE = getEnvFlag('QUESTIONS_OFFLINE');
+// Ignore the snapshot watermark and re-pull every question
+const FORCE_FULL_REFRESH = getEnvFlag('QUESTIONS_FULL_REFRESH');
+// Incremental refreshes can't see deleted questions, so do a full pull periodically
+const SNAPSHOT_MAX_AGE_HOURS = getEnvNumber('QUESTIONS_SNAPSHOT_MAX_AGE_HOURS', 24 * 7);
+
+const PAGE_LIMIT = 1000;
+
+interface QuestionsPage {
+    questions: RawQuestion[];
+    total?: number;
+    totalPages?: number;
+    pagination?: { total?: number; totalPages?: number };
+}
+
+/**
+ * Fetch a single page of questions and check the response shape
+ */
+async function fetchQuestionsPage(page: number, query: string): Promise<QuestionsPage> {
+    const url = `${API_BASE}/api/questions?page=${page}&limit=${PAGE_LIMIT}${query}`;
+    console.log(`  → Fetching page ${page}: ${url}`);
+
+    const data = await fetchJson<QuestionsPage>(url);
+
+    if (!data.questions || !Array.isArray(data.questions)) {
+        console.error('  ✗ Invalid response format:', data);
+        throw new Error('Invalid API response format');
+    }
+
+    return data;
+}
+
+/**
+ * Total page count reported by the API, if it reports one
+ */
+function getTotalPages(data: QuestionsPage): number | null {
+    const totalPages = data.totalPages ?? data.pagination?.totalPages;
+    if (typeof totalPages === 'number') return totalPages;
+
+    const total = data.total ?? data.pagination?.total;
+    if (typeof total === 'number') return Math.ceil(total / PAGE_LIMIT);
+
+    return null;
+}
+
+/**
+ * Fetch question pages until the API runs out (or maxQuestions is reached).
+ * When the first page reports a total, the remaining pages are fetched in
+ * parallel (bounded by HTTP_CONCURRENCY); otherwise they are walked in order.
+ * @param query - Extra query string appended to every page request
+ */
+async function fetchQuestionPages(query = '', maxQuestions?: number): Promise<RawQuestion[]> {
+    const firstPage = await fetchQuestionsPage(1, query);
+    const allQuestions: RawQuestion[] = [...firstPage.questions];
+    console.log(`  ✓ Fetched ${allQuestions.length} questions so far...`);
+
+    const reachedLimit = () => Boolean(maxQuestions && allQuestions.length >= maxQuestions);
+    let totalPages = getTotalPages(firstPage);
+
+    if (totalPages !== null) {
+        if (maxQuestions) {
+            totalPages = Math.min(totalPages, Math.ceil(maxQuestions / PAGE_LIMIT));
+        }
+        const remaining = Array.from({ length: Math.max(0, totalPages - 1) }, (_, i) => i + 2);
+        const pages = await mapWithConcurrency(remaining, DEFAULT_CONCURRENCY, async (page) => {
+            const data = await fetchQuestionsPage(page, query);
+            console.log(`  ✓ Fetched page ${page}/${totalPages}`);
+            return data.questions;
+        });
+        for (const questions of pages) {
+            allQuestions.push(...questions);
+        }
+    } else {
+        let page = 2;
+        let hasMore = firstPage.questions.length === PAGE_LIMIT;
+
+        while (hasMore && !reachedLimit()) {
+            const data = await fetchQuestionsPage(page, query);
+            allQuestions.push(...data.questions);
+            console.log(`  ✓ Fetched ${allQuestions.length} questions so far...`);
+
+            hasMore = data.questions.length === PAGE_LIMIT;
+            page++;
+        }
+    }
+
+    if (reachedLimit()) {
+        console.log(`  ⚠ Reached test limit of ${maxQuestions} questions`);
+    }
+
+    return allQuestions;
+}
+
+/**
+ * Load the complete question set, using the on-disk snapshot where possible:
+ * - offline mode: snapshot only
+ * - recent full fetch: fetch only questions updated since its watermark and merge
+ * - no snapshot / last full fetch too old / forced: full fetch
+ * Falls back to the snapshot when the API is unreachable.
+ */
+async function loadQuestionsWithSnapshot(): Promise<RawQuestion[]> {
+    const snapshot = readSnapshot(API_BASE);
+
+    if (OFFLINE_MODE) {
+        if (!snapshot) {
+            throw new Error(`QUESTIONS_OFFLINE is set but no usable snapshot exists at ${getSnapshotPath()}`);
+        }
+        console.log(`📴 Offline mode: using snapshot from ${snapshot.fetchedAt} (${snapshot.questions.length} questions)`);
+        return snapshot.questions;
+    }
+
+    const canRefreshIncrementally = snapshot
+        && snapshot.latestUpdatedAt
+        && !FORCE_FULL_REFRESH
+        && getSnapshotAgeHours(snapshot) < SNAPSHOT_MAX_AGE_HOURS;
+
+    try {
+        if (snapshot && canRefreshIncrementally) {
+            console.log(`🔄 Incremental refresh: questions updated since ${snapshot.latestUpdatedAt}`);
+            const changed = await fetchQuestionPages(`&updatedSince=${encodeURIComponent(snapshot.latestUpdatedAt!)}`);
+            const merged = mergeQuestions(snapshot.questions, changed);
+            console.log(`  ✓ ${changed.length} changed questions merged into snapshot`);
+            writeSnapshot(API_BASE, merged, snapshot.fullFetchedAt);
+            return merged;
+        }
+
+        if (snapshot) {
+            console.log(`🔄 Last full fetch ${snapshot.fullFetchedAt} is too old or a full refresh was requested, re-fetching everything`);
+        }
+        const questions = await fetchQuestionPages();
+        writeSnapshot(API_BASE, questions);
+        console.log(`💾 Saved question snapshot to ${getSnapshotPath()}`);
+        return questions;
+    } catch (error) {
+        if (snapshot && isNetworkError(error)) {
+            console.warn(`⚠ API unreachable, building from snapshot taken ${snapshot.fetchedAt}`);
+            return snapshot.questions;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Fetch JSON, mapping a 404 to null (any other failure propagates)
+ */
+async function fetchJsonOrNull<T>(url: string): Promise<T | null> {
+    try {
+        return await fetchJson<T>(url);
+    } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Create the HTTP API data source
+ */
+export function createApiDataSource(): DataSource {
+    return {
+        name: 'api',
+        label: `API ${API_BASE}`,
+
+        async fetchQuestions(maxQuestions?: number): Promise<RawQuestion[]> {
+            if (!maxQuestions) {
+                return loadQuestionsWithSnapshot();
+            }
+            // Test mode bypasses the snapshot so partial sets are never persisted
+            const snapshot = OFFLINE_MODE ? readSnapshot(API_BASE) : null;
+            const questions = snapshot ? snapshot.questions : await fetchQuestionPages('', maxQuestions);
+            return questions.slice(0, maxQuestions);
+        },
+
+        async fetchCourse(slug: string): Promise<RawRecord | null> {
+            const url = `${API_BASE}/api/learning/courses/slug/${slug}`;
+            console.log(`  → Fetching: ${url}`);
+            return fetchJsonOrNull<RawRecord>(url);
+        },
+
+        async fetchTopics(): Promise<RawRecord[]> {
+            console.log(`  → Fetching: ${API_BASE}/api/learning/topics`);
+            return fetchJson<RawRecord[]>(`${API_BASE}/api/learning/topics`);
+        },
+
+        async fetchTopic(slug: string): Promise<RawRecord | null> {
+            return fetchJsonOrNull<RawRecord>(`${API_BASE}/api/learning/topics/slug/${slug}`);
+        }
+    };
+}
@@ -0,0 +1,270 @@
+// Build Manifest
+// Records what a build generated (the updatedAt of every question and a hash
+// and input signature per output file) in .cache/build-manifests/, one per
+// build directory. With
+// BUILD_MODE=incremental the next build keeps the previous output and only
+// regenerates pages whose signature changed: question pages, exam-topic
+// listings and Open Graph cards. Everything else (sitemaps, search index,
+// course pages, ...) is cheap and always rebuilt. Signatures only cover page
+// props, so the manifest also stores a fingerprint of the code and data
+// files; when it differs the next build is a full build.
+//
+// Pages record their signatures through selectChangedPages() while the build
+// runs; the incremental build integration (src/integrations/incrementalBuild.ts)
+// turns them into the next manifest once the build has finished.
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { Question } from '../types';
+import { readEnv } from './env';
+
+/**
+ * Bump whenever the manifest layout changes. Manifests written with a
+ * different version are ignored, which makes the next build a full build.
+ */
+export const BUILD_MANIFEST_VERSION = 2;
+
+export interface BuildManifestFile {
+    /** Output file, relative to the build directory */
+    file: string;
+    /** Hash of the file contents */
+    hash: string;
+    /** Signature of the inputs the page was generated from */
+    signature?: string;
+}
+
+export interface BuildManifest {
+    version: number;
+    /** Build directory, relative to the project root */
+    outDir: string;
+    /** Data the build was generated from (see getBuildSource) */
+    source: string;
+    /** Code and data the build was generated with (see getCodeFingerprint) */
+    fingerprint: string;
+    builtAt: string;
+    /** questionNumber -> updatedAt */
+    questions: Record<string, string>;
+    /** Route path (/questions/<slug>, /og/questions/<slug>.png) -> output file */
+    files: Record<string, BuildManifestFile>;
+}
+
+/**
+ * What the running build recorded so far (.cache/build-pending.json)
+ */
+export interface PendingBuild {
+    questions: Record<string, string>;
+    /** Route path -> signature, for generated and skipped pages alike */
+    signatures: Record<string, string>;
+    /** Route paths left out because their signature didn't change */
+    skipped: string[];
+}
+
+export interface QuestionChanges {
+    added: number[];
+    updated: number[];
+    removed: number[];
+}
+
+const getCacheDir = (): string => {
+    const dir = (typeof process !== 'undefined' && process.env?.CACHE_DIR) || '.cache';
+    return path.resolve(process.cwd(), dir);
+};
+
+/**
+ * Manifest of the build written to `outDir` (dist → .cache/build-manifests/dist.json)
+ */
+export const getManifestPath = (outDir: string): string =>
+    path.join(getCacheDir(), 'build-manifests', `${outDir.replace(/[^a-z0-9._-]+/gi, '_')}.json`);
+
+const getPendingPath = (): string => path.join(getCacheDir(), 'build-pending.json');
+
+/**
+ * Data source a build reads from; an incremental build over output that was
+ * generated from other data would keep pages that don't belong to it
+ */
+export function getBuildSource(): string {
+    const name = readEnv('DATA_SOURCE') || 'api';
+    return name === 'fixtures'
+        ? `fixtures:${readEnv('FIXTURES_DIR') || 'fixtures'}`
+        : `${name}:${readEnv('API_URL') || ''}`;
+}
+
+/**
+ * Files whose changes can alter any page: everything under src/ (templates,
+ * layouts, components, utils, src/data/*.json), the lockfile and the Astro config
+ */
+function listFingerprintFiles(root: string): string[] {
+    const files: string[] = [];
+    const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) walk(fullPath);
+            else if (entry.isFile()) files.push(fullPath);
+        }
+    };
+    if (fs.existsSync(path.join(root, 'src'))) walk(path.join(root, 'src'));
+    for (const name of fs.readdirSync(root)) {
+        if (name === 'package-lock.json' || /^astro\.config\.\w+$/.test(name)) files.push(path.join(root, name));
+    }
+    return files
+        .map(file => path.relative(root, file).split(path.sep).join('/'))
+        .sort();
+}
+
+/**
+ * Hash of the code and data files (paths and contents). Page signatures
+ * don't see a changed template, layout, UI string or renderer, so a
+ * different fingerprint means no previous page can be reused.
+ */
+export function getCodeFingerprint(root: string = process.cwd()): string {
+    const hash = createHash('sha256');
+    for (const file of listFingerprintFiles(root)) {
+        hash.update(`${file}\0`).update(fs.readFileSync(path.join(root, file))).update('\0');
+    }
+    return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Build directory whose previous output the integration kept, so pages may
+ * skip unchanged routes; undefined in a full build
+ */
+const getIncrementalOutDir = (): string | undefined => readEnv('INCREMENTAL_BUILD_OUT_DIR');
+
+export const isIncrementalBuild = (): boolean => Boolean(getIncrementalOutDir());
+
+/**
+ * Short hash of any JSON-serializable page input
+ */
+export function pageSignature(input: unknown): string {
+    return createHash('sha256').update(JSON.stringify(input)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read the manifest of the previous build.
+ * Returns null when it is missing, unreadable or from another manifest version.
+ */
+export function readBuildManifest(outDir: string): BuildManifest | null {
+    const file = getManifestPath(outDir);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+        const manifest = JSON.parse(fs.readFileSync(file, 'utf-8')) as BuildManifest;
+        if (manifest.version !== BUILD_MANIFEST_VERSION) {
+            console.log(`  ⚠ Ignoring build manifest v${manifest.version} (expected v${BUILD_MANIFEST_VERSION})`);
+            return null;
+        }
+        return manifest;
+    } catch (error) {
+        console.warn(`  ⚠ Could not read build manifest ${file}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename)
+ */
+function writeJsonFile(file: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(data));
+    fs.renameSync(tmpFile, file);
+}
+
+export function writeBuildManifest(manifest: BuildManifest): void {
+    writeJsonFile(getManifestPath(manifest.outDir), manifest);
+}
+
+export function readPendingBuild(): PendingBuild {
+    const file = getPendingPath();
+    if (!fs.existsSync(file)) return { questions: {}, signatures: {}, skipped: [] };
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as PendingBuild;
+}
+
+export function clearPendingBuild(): void {
+    fs.rmSync(getPendingPath(), { force: true });
+}
+
+/**
+ * Merge into the pending record on disk; re-read first since every route
+ * module records its own pages
+ */
+function updatePendingBuild(update: (pending: PendingBuild) => void): void {
+    const pending = readPendingBuild();
+    update(pending);
+    writeJsonFile(getPendingPath(), pending);
+}
+
+let previousSignatures: Record<string, string | undefined> | null = null;
+
+function getPreviousSignatures(): Record<string, string | undefined> {
+    if (!previousSignatures) {
+        const outDir = getIncrementalOutDir();
+        const files = (outDir && readBuildManifest(outDir)?.files) || {};
+        previousSignatures = Object.fromEntries(Object.entries(files).map(([route, entry]) => [route, entry.signature]));
+    }
+    return previousSignatures;
+}
+
+/**
+ * Record the question set the build was generated from
+ */
+export function recordBuildQuestions(questions: Question[]): void {
+    if (!import.meta.env.PROD) return;
+    updatePendingBuild(pending => {
+        for (const q of questions) pending.questions[q.questionNumber] = q.updatedAt;
+    });
+}
+
+/**
+ * Pages to generate in this build: all of them, or in an incremental build
+ * only those whose signature differs from the previous build.
+ * Records every signature for the next manifest.
+ */
+export function selectChangedPages<T>(
+    pages: T[],
+    getRoute: (page: T) => string,
+    getSignature: (page: T) => string
+): T[] {
+    if (!import.meta.env.PROD) return pages;
+
+    const incremental = isIncrementalBuild();
+    const previous = incremental ? getPreviousSignatures() : {};
+    const selected: T[] = [];
+    const signatures: Record<string, string> = {};
+    const skipped: string[] = [];
+
+    for (const page of pages) {
+        const route = getRoute(page);
+        const signature = getSignature(page);
+        signatures[route] = signature;
+        if (incremental && previous[route] === signature) {
+            skipped.push(route);
+        } else {
+            selected.push(page);
+        }
+    }
+
+    updatePendingBuild(pending => {
+        Object.assign(pending.signatures, signatures);
+        pending.skipped.push(...skipped);
+    });
+    if (incremental) {
+        console.log(`  ♻️  ${skipped.length} unchanged, ${selected.length} to generate`);
+    }
+    return selected;
+}
+
+/**
+ * Questions added, updated (different updatedAt) or removed since the previous build
+ */
+export function diffQuestions(previous: Record<string, string>, current: Record<string, string>): QuestionChanges {
+    const changes: QuestionChanges = { added: [], updated: [], removed: [] };
+    for (const [questionNumber, updatedAt] of Object.entries(current)) {
+        if (!(questionNumber in previous)) changes.added.push(Number(questionNumber));
+        else if (previous[questionNumber] !== updatedAt) changes.updated.push(Number(questionNumber));
+    }
+    for (const questionNumber of Object.keys(previous)) {
+        if (!(questionNumber in current)) changes.removed.push(Number(questionNumber));
+    }
+    return changes;
+}
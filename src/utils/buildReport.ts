@@ -0,0 +1,20 @@
+// Build Reports
+// JSON artifacts written during the build for humans and CI to inspect
+import fs from 'node:fs';
+import path from 'node:path';
+
+const getReportDir = (): string => {
+    const dir = (typeof process !== 'undefined' && process.env?.REPORT_DIR) || 'reports';
+    return path.resolve(process.cwd(), dir);
+};
+
+/**
+ * Write a named JSON report to the report directory (reports/<name>.json)
+ * Returns the absolute path written.
+ */
+export function writeBuildReport(name: string, data: unknown): string {
+    const file = path.join(getReportDir(), `${name}.json`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ generatedAt: new Date().toISOString(), ...data as object }, null, 2));
+    return file;
+}
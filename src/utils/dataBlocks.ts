@@ -0,0 +1,382 @@
+// Data Blocks
+// Fenced ```chart and ```data-table blocks in questions and lessons, rendered
+// to static HTML/SVG at build time so crawlers and no-JS readers get the data.
+// Both blocks share one format: `key: value` options, a blank line, then
+// comma-separated rows with a header row first (quote cells that contain
+// commas: "1,200"):
+//
+//   ```chart
+//   type: bar
+//   title: Cars sold by company
+//   unit: thousands
+//
+//   Year, Company A, Company B
+//   2021, 120, 90
+//   2022, 150, 110
+//   ```
+//
+// Charts plot every column after the first as a series against the first
+// column's categories (pie charts take a single series). Data tables render
+// the rows as a table with the title/caption and unit in its caption.
+// Labels the blocks add themselves ("Data table", "Source: ...") are UI
+// strings of the page's locale (src/data/i18n.json).
+import { z } from 'astro/zod';
+import type { Locale } from '../types';
+import { escapeHtml, escapeAttribute } from './htmlSanitizer';
+import { DEFAULT_LOCALE, t } from './i18n';
+
+const chartOptionsSchema = z.object({
+    type: z.enum(['bar', 'line', 'pie']),
+    title: z.string().optional(),
+    unit: z.string().optional(),
+    'x-label': z.string().optional(),
+    'y-label': z.string().optional()
+}).strict();
+
+const tableOptionsSchema = z.object({
+    caption: z.string().optional(),
+    title: z.string().optional(),
+    unit: z.string().optional(),
+    source: z.string().optional()
+}).strict();
+
+interface DataBlock {
+    options: Record<string, string>;
+    header: string[];
+    rows: string[][];
+}
+
+/** Series colors (brand first); cycled past eight series */
+const PALETTE = ['#4f46e5', '#f59e0b', '#10b981', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#84cc16'];
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const MAX_CATEGORIES = 40;
+
+/**
+ * One CSV row; double quotes group cells containing commas ("" is a quote)
+ */
+function parseRow(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * Split a block into its options and rows; throws on malformed input
+ */
+function parseBlock(source: string): DataBlock {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const options: Record<string, string> = {};
+
+    let index = 0;
+    for (; index < lines.length; index++) {
+        const line = lines[index].trim();
+        if (!line) {
+            // Blank line ends the options (leading blank lines are skipped)
+            if (Object.keys(options).length > 0) break;
+            continue;
+        }
+        const option = /^([a-z][a-z-]*)\s*:\s*(.*)$/i.exec(line);
+        if (!option) break;
+        options[option[1].toLowerCase()] = option[2].trim();
+    }
+
+    const rows = lines.slice(index)
+        .filter(line => line.trim())
+        .map(parseRow);
+
+    if (rows.length < 2) throw new Error('needs a header row and at least one data row');
+    const [header, ...data] = rows;
+    const badRow = data.findIndex(row => row.length !== header.length);
+    if (badRow !== -1) {
+        throw new Error(`row ${badRow + 1} has ${data[badRow].length} cells, the header has ${header.length}`);
+    }
+
+    return { options, header, rows: data };
+}
+
+function parseOptions<T>(schema: z.ZodType<T>, options: Record<string, string>): T {
+    const parsed = schema.safeParse(options);
+    if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || 'options'}: ${issue.message}`).join('; '));
+    }
+    return parsed.data;
+}
+
+/**
+ * Numeric value of a cell ("1,200", "₹ 45.5", "12%"), or null
+ */
+function toNumber(cell: string): number | null {
+    const cleaned = cell.replace(/[,\s₹$%]/g, '');
+    if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+    return Number(cleaned);
+}
+
+const formatNumber = (value: number): string =>
+    value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+/**
+ * Round step for about `count` axis ticks (1, 2, 2.5 or 5 × 10^n)
+ */
+function niceStep(range: number, count: number): number {
+    const raw = range / count;
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= raw) ?? 10;
+    return step * magnitude;
+}
+
+/** Approximate rendered width of SVG text */
+const textWidth = (text: string, fontSize: number): number => text.length * fontSize * 0.58;
+
+function svgText(x: number, y: number, text: string, attributes = ''): string {
+    return `<text x="${round(x)}" y="${round(y)}"${attributes}>${escapeHtml(text)}</text>`;
+}
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Legend row under the plot; returns the markup and its height
+ */
+function renderLegend(names: string[], top: number): { svg: string; height: number } {
+    let x = 24;
+    let y = top;
+    const items: string[] = [];
+
+    names.forEach((name, index) => {
+        const width = 18 + textWidth(name, 12) + 16;
+        if (x + width > WIDTH - 16 && x > 24) {
+            x = 24;
+            y += 20;
+        }
+        items.push(`<rect x="${round(x)}" y="${round(y - 9)}" width="12" height="12" rx="2" fill="${PALETTE[index % PALETTE.length]}" />`);
+        items.push(svgText(x + 18, y + 1, name, ' font-size="12" fill="#4b5563"'));
+        x += width;
+    });
+
+    return { svg: `<g class="chart-legend">${items.join('')}</g>`, height: y - top + 20 };
+}
+
+interface ChartData {
+    categories: string[];
+    series: Array<{ name: string; values: number[] }>;
+}
+
+function readChartData(block: DataBlock): ChartData {
+    if (block.header.length < 2) throw new Error('needs a category column and at least one value column');
+    if (block.rows.length > MAX_CATEGORIES) throw new Error(`more than ${MAX_CATEGORIES} rows`);
+
+    const series = block.header.slice(1).map((name, column) => ({
+        name,
+        values: block.rows.map((row, rowIndex) => {
+            const value = toNumber(row[column + 1]);
+            if (value === null) throw new Error(`row ${rowIndex + 1}, "${name}": "${row[column + 1]}" is not a number`);
+            return value;
+        })
+    }));
+
+    return { categories: block.rows.map(row => row[0]), series };
+}
+
+/**
+ * Bar and line charts: value axis with gridlines, category axis, value labels
+ */
+function renderCartesian(type: 'bar' | 'line', data: ChartData, options: z.infer<typeof chartOptionsSchema>): string {
+    const values = data.series.flatMap(series => series.values);
+    const dataMin = Math.min(0, ...values);
+    const dataMax = Math.max(0, ...values);
+    const step = niceStep(dataMax - dataMin || 1, 5);
+    const axisMin = Math.floor(dataMin / step) * step;
+    const axisMax = Math.ceil(dataMax / step) * step || step;
+
+    const tickLabels: number[] = [];
+    for (let tick = axisMin; tick <= axisMax + step / 2; tick += step) tickLabels.push(Number(tick.toPrecision(12)));
+
+    const left = 24 + Math.max(...tickLabels.map(tick => textWidth(formatNumber(tick), 11))) + (options['y-label'] ? 18 : 6);
+    const right = WIDTH - 16;
+    const top = 24;
+    const slot = (right - left) / data.categories.length;
+    const rotateLabels = data.categories.some(category => textWidth(category, 11) > slot - 4);
+    const legend = data.series.length > 1 ? renderLegend(data.series.map(series => series.name), 0) : undefined;
+    const bottom = HEIGHT - 24 - (rotateLabels ? 48 : 18) - (options['x-label'] ? 18 : 0) - (legend ? legend.height + 8 : 0);
+
+    const y = (value: number) => bottom - ((value - axisMin) / (axisMax - axisMin)) * (bottom - top);
+    const parts: string[] = [];
+
+    // Gridlines and value axis
+    for (const tick of tickLabels) {
+        parts.push(`<line x1="${round(left)}" y1="${round(y(tick))}" x2="${round(right)}" y2="${round(y(tick))}" stroke="${tick === 0 ? '#9ca3af' : '#e5e7eb'}" stroke-width="1" />`);
+        parts.push(svgText(left - 6, y(tick) + 4, formatNumber(tick), ' font-size="11" text-anchor="end" fill="#4b5563"'));
+    }
+    if (options['y-label']) {
+        const middle = (top + bottom) / 2;
+        parts.push(svgText(14, middle, options['y-label'], ` font-size="12" text-anchor="middle" fill="#4b5563" transform="rotate(-90 14 ${round(middle)})"`));
+    }
+
+    // Category axis
+    data.categories.forEach((category, index) => {
+        const x = left + slot * (index + 0.5);
+        parts.push(rotateLabels
+            ? svgText(x, bottom + 14, category, ` font-size="11" text-anchor="end" fill="#4b5563" transform="rotate(-35 ${round(x)} ${round(bottom + 14)})"`)
+            : svgText(x, bottom + 16, category, ' font-size="11" text-anchor="middle" fill="#4b5563"'));
+    });
+    const axisBottom = bottom + (rotateLabels ? 48 : 18);
+    if (options['x-label']) {
+        parts.push(svgText((left + right) / 2, axisBottom + 14, options['x-label'], ' font-size="12" text-anchor="middle" fill="#4b5563"'));
+    }
+
+    const showValues = data.categories.length * data.series.length <= 36;
+
+    if (type === 'bar') {
+        const groupWidth = slot * 0.8;
+        const barWidth = groupWidth / data.series.length;
+        data.series.forEach((series, seriesIndex) => {
+            const color = PALETTE[seriesIndex % PALETTE.length];
+            series.values.forEach((value, index) => {
+                const x = left + slot * index + (slot - groupWidth) / 2 + barWidth * seriesIndex;
+                const barTop = Math.min(y(value), y(0));
+                const height = Math.abs(y(value) - y(0));
+                parts.push(`<rect x="${round(x)}" y="${round(barTop)}" width="${round(Math.max(barWidth - 2, 1))}" height="${round(height)}" fill="${color}" />`);
+                if (showValues) {
+                    const labelY = value >= 0 ? barTop - 4 : barTop + height + 12;
+                    parts.push(svgText(x + barWidth / 2 - 1, labelY, formatNumber(value), ' font-size="10" text-anchor="middle" fill="#111827"'));
+                }
+            });
+        });
+    } else {
+        data.series.forEach((series, seriesIndex) => {
+            const color = PALETTE[seriesIndex % PALETTE.length];
+            const points = series.values.map((value, index) => [left + slot * (index + 0.5), y(value)]);
+            parts.push(`<polyline points="${points.map(([px, py]) => `${round(px)},${round(py)}`).join(' ')}" fill="none" stroke="${color}" stroke-width="2" />`);
+            points.forEach(([px, py], index) => {
+                parts.push(`<circle cx="${round(px)}" cy="${round(py)}" r="3.5" fill="${color}" />`);
+                if (showValues) {
+                    parts.push(svgText(px, py - 8, formatNumber(series.values[index]), ' font-size="10" text-anchor="middle" fill="#111827"'));
+                }
+            });
+        });
+    }
+
+    if (legend) {
+        const legendTop = axisBottom + (options['x-label'] ? 24 : 8) + 12;
+        parts.push(`<g transform="translate(0 ${round(legendTop)})">${legend.svg}</g>`);
+    }
+
+    return parts.join('');
+}
+
+/**
+ * Pie chart with percentage labels; the legend carries names and values
+ */
+function renderPie(data: ChartData): string {
+    if (data.series.length !== 1) throw new Error('a pie chart takes exactly one value column');
+    const values = data.series[0].values;
+    if (values.some(value => value < 0)) throw new Error('pie values cannot be negative');
+    const total = values.reduce((sum, value) => sum + value, 0);
+    if (total <= 0) throw new Error('pie values add up to zero');
+
+    const legend = renderLegend(data.categories.map((category, index) => `${category} (${formatNumber(values[index])})`), 0);
+    const radius = Math.min((HEIGHT - legend.height - 48) / 2, 140);
+    const cx = WIDTH / 2;
+    const cy = 16 + radius;
+    const parts: string[] = [];
+
+    let angle = -Math.PI / 2;
+    values.forEach((value, index) => {
+        const sweep = (value / total) * Math.PI * 2;
+        const color = PALETTE[index % PALETTE.length];
+        if (sweep >= Math.PI * 2 - 1e-9) {
+            parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(radius)}" fill="${color}" />`);
+        } else if (sweep > 0) {
+            const [x1, y1] = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+            const [x2, y2] = [cx + radius * Math.cos(angle + sweep), cy + radius * Math.sin(angle + sweep)];
+            parts.push(`<path d="M${round(cx)} ${round(cy)} L${round(x1)} ${round(y1)} A${round(radius)} ${round(radius)} 0 ${sweep > Math.PI ? 1 : 0} 1 ${round(x2)} ${round(y2)} Z" fill="${color}" stroke="#ffffff" stroke-width="1" />`);
+        }
+
+        const share = value / total;
+        if (share >= 0.04) {
+            const middle = angle + sweep / 2;
+            const labelX = cx + radius * 0.65 * Math.cos(middle);
+            const labelY = cy + radius * 0.65 * Math.sin(middle) + 4;
+            parts.push(svgText(labelX, labelY, `${formatNumber(Math.round(share * 1000) / 10)}%`, ' font-size="11" text-anchor="middle" fill="#ffffff"'));
+        }
+        angle += sweep;
+    });
+
+    parts.push(`<g transform="translate(0 ${round(cy + radius + 24)})">${legend.svg}</g>`);
+    return parts.join('');
+}
+
+/**
+ * Table markup shared by data-table blocks and the data behind charts
+ */
+function renderTable(block: DataBlock, caption?: string): string {
+    const numeric = block.header.map((_, column) =>
+        column > 0 && block.rows.every(row => !row[column] || toNumber(row[column]) !== null));
+    const cell = (tag: 'th' | 'td', text: string, column: number) =>
+        `<${tag}${numeric[column] ? ' align="right"' : ''}>${escapeHtml(text)}</${tag}>`;
+
+    return `<table>${caption ? `<caption>${escapeHtml(caption)}</caption>` : ''}` +
+        `<thead><tr>${block.header.map((text, column) => cell('th', text, column)).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map((text, column) => cell(column === 0 ? 'th' : 'td', text, column)).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+const withUnit = (text: string | undefined, unit: string | undefined, locale: Locale): string | undefined =>
+    unit ? `${text ? `${text} ` : ''}${t(locale, 'dataBlock.unit', { unit })}` : text;
+
+/**
+ * ```chart block → <figure> with an SVG chart, a caption and the data as a
+ * table (for screen readers and crawlers). Throws on an invalid spec.
+ */
+export function renderChartBlock(source: string, locale: Locale = DEFAULT_LOCALE): string {
+    const block = parseBlock(source);
+    const options = parseOptions(chartOptionsSchema, block.options);
+    const data = readChartData(block);
+    const caption = withUnit(options.title, options.unit, locale);
+
+    const plot = options.type === 'pie' ? renderPie(data) : renderCartesian(options.type, data, options);
+    const label = `${t(locale, `dataBlock.${options.type}`)}${caption ? `: ${caption}` : ''}`;
+
+    return `<figure class="chart chart-${options.type}">` +
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeAttribute(label)}">${plot}</svg>` +
+        (caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '') +
+        `<details class="chart-data"><summary>${escapeHtml(t(locale, 'dataBlock.dataTable'))}</summary>${renderTable(block)}</details>` +
+        `</figure>\n`;
+}
+
+/**
+ * ```data-table block → captioned table with numeric columns right-aligned.
+ * Throws on an invalid spec.
+ */
+export function renderDataTableBlock(source: string, locale: Locale = DEFAULT_LOCALE): string {
+    const block = parseBlock(source);
+    const options = parseOptions(tableOptionsSchema, block.options);
+    const caption = withUnit(options.caption || options.title, options.unit, locale);
+
+    return `<figure class="data-table"><div class="table-scroll">${renderTable(block, caption)}</div>` +
+        (options.source ? `<figcaption>${escapeHtml(t(locale, 'dataBlock.source', { source: options.source }))}</figcaption>` : '') +
+        `</figure>\n`;
+}
@@ -1,50 +1,11 @@
 // Data Fetcher Utilities
-import type { Question } from '../types';
-
-// Learning content types
-export interface LearningCourse {
-  _id: string;
-  title: string;
-  slug: string;
-  description?: string;
-  thumbnail?: string;
-  isPublished: boolean;
-  subjects?: LearningSubject[];
-}
-
-export interface LearningSubject {
-  _id: string;
-  title: string;
-  slug: string;
-  description?: string;
-  topics?: { topic: LearningTopic; order: number }[];
-}
+import type { Question, LearningCourse, LearningTopic } from '../types';
+import { getDataSource } from './dataSource';
+import { mapWithConcurrency, DEFAULT_CONCURRENCY } from './http';
+import { validateQuestions, validateCourses, validateCourse, validateTopics, validateTopic } from './validation';
 
-export interface LearningTopic {
-  _id: string;
-  title: string;
-  slug: string;
-  content?: string;
-  description?: string;
-  headings?: { id: string; text: string; level: number }[];
-  isPublished: boolean;
-}
-
-// API base URL - uses environment variable or defaults
-const getApiBase = (): string => {
-  // Check for Vite/Astro environment variable
-  if (typeof import.meta !== 'undefined' && import.meta.env?.API_URL) {
-    return import.meta.env.API_URL;
-  }
-  // Check for Node.js environment variable
-  if (typeof process !== 'undefined' && process.env?.API_URL) {
-    return process.env.API_URL;
-  }
-  // Default to localhost for development
-  return 'http://localhost:8080';
-};
-
-const API_BASE = getApiBase();
+// Learning content types live in types.ts; re-exported for existing imports
+export type { LearningCourse, LearningSubject, LearningTopic } from '../types';
 
 let questionsCache: Question[] | null = null;
 let fetchPromise: Promise<Question[]> | null = null;
@@ -71,57 +32,16 @@ export async function fetchAllQuestions(maxQuestions?: number): Promise<Question
     }
 
     const fetchLogic = async () => {
-        const allQuestions: Question[] = [];
-        let page = 1;
-        const limit = 1000;
-        let hasMore = true;
-
+        const dataSource = getDataSource();
         console.log('📊 Fetching questions for build...');
-        console.log(`API URL: ${API_BASE}`);
+        console.log(`Data source: ${dataSource.label}`);
         if (maxQuestions) {
             console.log(`⚠ TEST MODE: Building only ${maxQuestions} questions`);
         }
 
-        while (hasMore) {
-            try {
-                const url = `${API_BASE}/api/questions?page=${page}&limit=${limit}`;
-                console.log(`  → Fetching page ${page}: ${url}`);
-
-                const response = await fetch(url);
-
-                if (!response.ok) {
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-                }
-
-                const data = await response.json();
-
-                if (!data.questions || !Array.isArray(data.questions)) {
-                    console.error('  ✗ Invalid response format:', data);
-                    throw new Error('Invalid API response format');
-                }
-
-                allQuestions.push(...data.questions);
-
-                console.log(`  ✓ Fetched ${allQuestions.length} questions so far...`);
-
-                // Check if we've reached the test limit
-                if (maxQuestions && allQuestions.length >= maxQuestions) {
-                    console.log(`  ⚠ Reached test limit of ${maxQuestions} questions`);
-                    break;
-                }
-
-                hasMore = data.questions.length === limit;
-                page++;
-            } catch (error) {
-                console.error(`  ✗ Error fetching page ${page}:`, error);
-                throw error;
-            }
-        }
-
-        // Trim to exact limit if specified
-        const finalQuestions = maxQuestions ? allQuestions.slice(0, maxQuestions) : allQuestions;
+        const finalQuestions = validateQuestions(await dataSource.fetchQuestions(maxQuestions));
 
-        // Cache the result if we fetched everything (no limit or limit matches total)
+        // Cache the result if we fetched everything
         if (!maxQuestions) {
             questionsCache = finalQuestions;
         }
@@ -150,12 +70,18 @@ export function buildQuestionIndexes(questions: Question[]): {
     byCategory: Map<string, Question[]>;
     byExam: Map<string, Question[]>;
     byExamAndTopic: Map<string, Question[]>;
+    byExamAndSubExam: Map<string, Question[]>;
+    byExamAndSection: Map<string, Question[]>;
+    byTag: Map<string, Question[]>;
     byQuestionNumber: Map<number, Question>;
 } {
     const byTopic = new Map<string, Question[]>();
     const byCategory = new Map<string, Question[]>();
     const byExam = new Map<string, Question[]>();
     const byExamAndTopic = new Map<string, Question[]>();
+    const byExamAndSubExam = new Map<string, Question[]>();
+    const byExamAndSection = new Map<string, Question[]>();
+    const byTag = new Map<string, Question[]>();
     const byQuestionNumber = new Map<number, Question>();
 
     for (const q of questions) {
@@ -193,37 +119,39 @@ export function buildQuestionIndexes(questions: Question[]): {
                 }
                 byExamAndTopic.get(key)!.push(q);
             }
-        }
-    }
 
-    return { byTopic, byCategory, byExam, byExamAndTopic, byQuestionNumber };
-}
+            // Index by exam + sub-exam ("General" or the exam itself isn't a sub-exam)
+            if (q.subExam && q.subExam !== 'General' && q.subExam !== q.exam) {
+                const key = `${q.exam}::${q.subExam}`;
+                if (!byExamAndSubExam.has(key)) {
+                    byExamAndSubExam.set(key, []);
+                }
+                byExamAndSubExam.get(key)!.push(q);
+            }
 
-/**
- * Get related questions using pre-built indexes (O(1) lookup instead of O(n))
- */
-export function getRelatedQuestions(
-    question: Question,
-    indexes: { byTopic: Map<string, Question[]>; byCategory: Map<string, Question[]> },
-    limit = 6
-): Question[] {
-    const candidates: Question[] = [];
-
-    // Get questions from same topic
-    if (question.topic) {
-        const topicQuestions = indexes.byTopic.get(question.topic) || [];
-        candidates.push(...topicQuestions.filter(q => q.questionNumber !== question.questionNumber));
-    }
+            // Index by exam + section
+            if (q.section) {
+                const key = `${q.exam}::${q.section}`;
+                if (!byExamAndSection.has(key)) {
+                    byExamAndSection.set(key, []);
+                }
+                byExamAndSection.get(key)!.push(q);
+            }
+        }
 
-    // Get questions from same category
-    if (question.category) {
-        const categoryQuestions = indexes.byCategory.get(question.category) || [];
-        candidates.push(...categoryQuestions.filter(q => q.questionNumber !== question.questionNumber));
+        // Index by tag (case-insensitive)
+        for (const tag of new Set((q.tags || []).map(t => t.toLowerCase()))) {
+            if (!byTag.has(tag)) {
+                byTag.set(tag, []);
+            }
+            byTag.get(tag)!.push(q);
+        }
     }
 
-    // Remove duplicates and limit
-    const unique = Array.from(new Map(candidates.map(q => [q.questionNumber, q])).values());
-    return unique.slice(0, limit);
+    return {
+        byTopic, byCategory, byExam, byExamAndTopic,
+        byExamAndSubExam, byExamAndSection, byTag, byQuestionNumber
+    };
 }
 
 /**
@@ -246,28 +174,16 @@ export async function fetchAllCourses(): Promise<LearningCourse[]> {
         'data-interpretation'
     ];
 
-    const courses: LearningCourse[] = [];
-
     // Fetch each course by slug to get full topic data
-    for (const slug of coreCoursesSlugs) {
-        try {
-            const url = `${API_BASE}/api/learning/courses/slug/${slug}`;
-            console.log(`  → Fetching: ${url}`);
-            
-            const response = await fetch(url);
-            
-            if (!response.ok) {
-                console.log(`  ⚠ Course not found: ${slug}`);
-                continue;
-            }
-
-            const course = await response.json();
-            courses.push(course);
-            console.log(`  ✓ Fetched: ${course.title}`);
-        } catch (error) {
-            console.error(`  ✗ Error fetching ${slug}:`, error);
+    const dataSource = getDataSource();
+    const fetched = await mapWithConcurrency(coreCoursesSlugs, DEFAULT_CONCURRENCY, async (slug) => {
+        const course = await dataSource.fetchCourse(slug);
+        if (!course) {
+            console.log(`  ⚠ Course not found: ${slug}`);
         }
-    }
+        return course;
+    });
+    const courses = validateCourses(fetched.filter((course): course is Record<string, any> => course !== null));
 
     console.log(`✅ Fetched ${courses.length} courses with topics`);
     
@@ -285,24 +201,12 @@ export async function fetchAllTopics(): Promise<LearningTopic[]> {
     }
 
     console.log('📝 Fetching learning topics...');
-    console.log(`API URL: ${API_BASE}/api/learning/topics`);
 
-    try {
-        const response = await fetch(`${API_BASE}/api/learning/topics`);
-        
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+    const topics = validateTopics(await getDataSource().fetchTopics());
+    console.log(`✅ Fetched ${topics.length} topics`);
 
-        const topics = await response.json();
-        console.log(`✅ Fetched ${topics.length} topics`);
-        
-        topicsCache = topics;
-        return topics;
-    } catch (error) {
-        console.error('Error fetching topics:', error);
-        return [];
-    }
+    topicsCache = topics;
+    return topics;
 }
 
 /**
@@ -311,23 +215,12 @@ export async function fetchAllTopics(): Promise<LearningTopic[]> {
 export async function fetchTopicBySlug(slug: string): Promise<LearningTopic | null> {
     console.log(`📝 Fetching topic: ${slug}`);
 
-    try {
-        const response = await fetch(`${API_BASE}/api/learning/topics/slug/${slug}`);
-        
-        if (!response.ok) {
-            if (response.status === 404) {
-                console.log(`  Topic not found: ${slug}`);
-                return null;
-            }
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const topic = await response.json();
-        return topic;
-    } catch (error) {
-        console.error(`Error fetching topic ${slug}:`, error);
+    const topic = await getDataSource().fetchTopic(slug);
+    if (!topic) {
+        console.log(`  ⚠ Topic not found: ${slug}`);
         return null;
     }
+    return validateTopic(topic);
 }
 
 /**
@@ -336,21 +229,10 @@ export async function fetchTopicBySlug(slug: string): Promise<LearningTopic | nu
 export async function fetchCourseBySlug(slug: string): Promise<LearningCourse | null> {
     console.log(`📚 Fetching course: ${slug}`);
 
-    try {
-        const response = await fetch(`${API_BASE}/api/learning/courses/slug/${slug}`);
-        
-        if (!response.ok) {
-            if (response.status === 404) {
-                console.log(`  Course not found: ${slug}`);
-                return null;
-            }
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const course = await response.json();
-        return course;
-    } catch (error) {
-        console.error(`Error fetching course ${slug}:`, error);
+    const course = await getDataSource().fetchCourse(slug);
+    if (!course) {
+        console.log(`  ⚠ Course not found: ${slug}`);
         return null;
     }
+    return validateCourse(course);
 }
@@ -0,0 +1,49 @@
+// Data Sources
+// Pages never talk to a backend directly: dataFetcher.ts reads raw records
+// through a DataSource and validates them. DATA_SOURCE picks the backend:
+//   api      - the live HTTP API at API_URL (default)
+//   fixtures - JSON/NDJSON files in FIXTURES_DIR (default: fixtures/)
+import type { RawQuestion } from '../types';
+import { readEnv } from './env';
+import { createApiDataSource } from './apiDataSource';
+import { createFixtureDataSource } from './fixtureDataSource';
+
+export type RawRecord = Record<string, any>;
+
+export interface DataSource {
+    /** Identifier matching the DATA_SOURCE value */
+    name: string;
+    /** Human-readable description for build logs */
+    label: string;
+    /** All questions as the backend stores them (unvalidated) */
+    fetchQuestions(maxQuestions?: number): Promise<RawQuestion[]>;
+    /** A course with populated subjects/topics, or null when it doesn't exist */
+    fetchCourse(slug: string): Promise<RawRecord | null>;
+    /** All learning topics */
+    fetchTopics(): Promise<RawRecord[]>;
+    /** A topic with full content, or null when it doesn't exist */
+    fetchTopic(slug: string): Promise<RawRecord | null>;
+}
+
+const DATA_SOURCES: Record<string, () => DataSource> = {
+    api: createApiDataSource,
+    fixtures: createFixtureDataSource
+};
+
+let dataSource: DataSource | null = null;
+
+/**
+ * Get the configured data source (created once per build)
+ */
+export function getDataSource(): DataSource {
+    if (dataSource) return dataSource;
+
+    const name = readEnv('DATA_SOURCE') || 'api';
+    const create = DATA_SOURCES[name];
+    if (!create) {
+        throw new Error(`Unknown DATA_SOURCE "${name}" (expected one of: ${Object.keys(DATA_SOURCES).join(', ')})`);
+    }
+
+    dataSource = create();
+    return dataSource;
+}
@@ -0,0 +1,29 @@
+// Environment helpers
+// Settings can come from Astro/Vite (import.meta.env, .env files) or plain Node (process.env)
+
+/**
+ * Read a setting, preferring Astro/Vite env over Node env
+ */
+export function readEnv(name: string): string | undefined {
+    const metaEnv = typeof import.meta !== 'undefined'
+        ? (import.meta.env as Record<string, string | undefined> | undefined)
+        : undefined;
+    return metaEnv?.[name] ?? (typeof process !== 'undefined' ? process.env?.[name] : undefined);
+}
+
+/**
+ * Read a boolean flag ("1" or "true")
+ */
+export function getEnvFlag(name: string): boolean {
+    const value = readEnv(name);
+    return value === '1' || value === 'true';
+}
+
+/**
+ * Read a numeric setting, falling back when unset or not a number
+ */
+export function getEnvNumber(name: string, fallback: number): number {
+    const value = readEnv(name);
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) ? parsed : fallback;
+}
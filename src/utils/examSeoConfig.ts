@@ -0,0 +1,154 @@
+// Exam SEO Configuration
+// Keyword lists and title/description templates for question pages, loaded
+// from src/data/exam-seo.json and validated when the build starts.
+//
+// Lookup order for a question: subExam override → exam entry → defaults.
+// Translated locales have their own section under `locales` with the same
+// lookup; their keywords fall back to the English lists, templates don't.
+import { z } from 'astro/zod';
+import type { ExamSeoConfig, ExamSeoEntry, ExamSeoOverrides, Locale } from '../types';
+import { DEFAULT_LOCALE, TRANSLATION_LOCALES } from './i18n';
+import examSeoData from '../data/exam-seo.json';
+
+/**
+ * Placeholders available in title/description templates
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+    'statement', 'answerFormat', 'exam', 'subExam', 'section',
+    'category', 'topic', 'difficulty', 'type'
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+const template = z.string().min(1).superRefine((value, ctx) => {
+    for (const [, name] of value.matchAll(/\{(\w+)\}/g)) {
+        if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `unknown placeholder {${name}} (available: ${TEMPLATE_PLACEHOLDERS.join(', ')})`
+            });
+        }
+    }
+});
+
+const keywords = z.array(z.string().min(1));
+
+const overridesSchema = z.object({
+    keywords: keywords.optional(),
+    titleTemplate: template.optional(),
+    descriptionTemplate: template.optional()
+}).strict();
+
+const templatesSchema = z.object({
+    titleTemplate: template,
+    descriptionTemplate: template
+}).strict();
+
+const examsSchema = z.record(overridesSchema.extend({
+    subExams: z.record(overridesSchema).optional()
+}).strict());
+
+const localeSchema = z.object({
+    universalKeywords: keywords.optional(),
+    defaults: templatesSchema,
+    exams: examsSchema.optional()
+}).strict();
+
+export const examSeoConfigSchema = z.object({
+    universalKeywords: keywords,
+    defaults: templatesSchema,
+    exams: examsSchema,
+    locales: z.record(localeSchema).superRefine((locales, ctx) => {
+        for (const locale of Object.keys(locales)) {
+            if (!(TRANSLATION_LOCALES as readonly string[]).includes(locale)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [locale], message: `unsupported locale "${locale}"` });
+            }
+        }
+        for (const locale of TRANSLATION_LOCALES) {
+            if (!locales[locale]) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [locale], message: 'missing (translated question pages need templates)' });
+            }
+        }
+    })
+}).strict();
+
+/**
+ * Validate the config; throws with every problem listed so a bad edit to the
+ * data file fails the build instead of producing broken metadata
+ */
+export function parseExamSeoConfig(data: unknown): ExamSeoConfig {
+    const parsed = examSeoConfigSchema.safeParse(data);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid src/data/exam-seo.json:\n${issues.join('\n')}`);
+    }
+    return parsed.data;
+}
+
+const config = parseExamSeoConfig(examSeoData);
+
+export const UNIVERSAL_KEYWORDS = config.universalKeywords;
+
+/**
+ * The config section of a locale (the top level for English)
+ */
+function getLocaleConfig(locale: Locale) {
+    return locale === DEFAULT_LOCALE ? config : config.locales[locale]!;
+}
+
+/**
+ * Overrides for an exam/sub-exam pair, most specific first
+ */
+function getOverrides(exams: Record<string, ExamSeoEntry> | undefined, exam?: string, subExam?: string): ExamSeoOverrides[] {
+    const entry = exam ? exams?.[exam] : undefined;
+    if (!entry) return [];
+    const subEntry = subExam ? entry.subExams?.[subExam] : undefined;
+    return subEntry ? [subEntry, entry] : [entry];
+}
+
+/**
+ * Keywords appended to every question's keywords in the locale
+ */
+export function getUniversalKeywords(locale: Locale = DEFAULT_LOCALE): string[] {
+    return getLocaleConfig(locale).universalKeywords || UNIVERSAL_KEYWORDS;
+}
+
+/**
+ * Exam keywords: the sub-exam's list if it has one, otherwise the exam's
+ * (the English lists when the locale has none)
+ */
+export function getExamKeywords(exam?: string, subExam?: string, locale: Locale = DEFAULT_LOCALE): string[] {
+    return getOverrides(getLocaleConfig(locale).exams, exam, subExam).find(o => o.keywords)?.keywords
+        || getOverrides(config.exams, exam, subExam).find(o => o.keywords)?.keywords
+        || [];
+}
+
+/**
+ * Title and description templates for a question's exam/sub-exam
+ */
+export function getQuestionTemplates(
+    exam?: string,
+    subExam?: string,
+    locale: Locale = DEFAULT_LOCALE
+): { title: string; description: string } {
+    const { exams, defaults } = getLocaleConfig(locale);
+    const overrides = getOverrides(exams, exam, subExam);
+    return {
+        title: overrides.find(o => o.titleTemplate)?.titleTemplate || defaults.titleTemplate,
+        description: overrides.find(o => o.descriptionTemplate)?.descriptionTemplate || defaults.descriptionTemplate
+    };
+}
+
+/**
+ * Fill {placeholders}; missing values become empty and the doubled spaces
+ * they leave behind are collapsed
+ */
+export function renderTemplate(
+    templateText: string,
+    values: Partial<Record<TemplatePlaceholder, string | undefined>>
+): string {
+    return templateText
+        .replace(/\{(\w+)\}/g, (_, name: TemplatePlaceholder) => values[name] ?? '')
+        .replace(/ {2,}/g, ' ')
+        .trim();
+}
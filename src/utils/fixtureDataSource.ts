@@ -0,0 +1,99 @@
+// Fixture Data Source
+// Reads questions and learning content from local files so the site can be
+// built, previewed and tested without the backend. Layout of FIXTURES_DIR:
+//   questions.ndjson  one question per line (and/or questions.json, an array)
+//   courses.json      array of courses with populated subjects/topics
+//   topics.json       optional; defaults to every topic found in courses.json
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RawQuestion } from '../types';
+import type { DataSource, RawRecord } from './dataSource';
+import { readEnv } from './env';
+
+const getFixturesDir = (): string => path.resolve(process.cwd(), readEnv('FIXTURES_DIR') || 'fixtures');
+
+function readJsonFile<T>(file: string): T | null {
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+}
+
+/**
+ * Parse an NDJSON file, reporting the line number of any malformed record
+ */
+function readNdjsonFile(file: string): RawRecord[] {
+    if (!fs.existsSync(file)) return [];
+
+    return fs.readFileSync(file, 'utf-8')
+        .split('\n')
+        .map((line, index) => ({ line: line.trim(), index }))
+        .filter(({ line }) => line && !line.startsWith('//'))
+        .map(({ line, index }) => {
+            try {
+                return JSON.parse(line);
+            } catch (error) {
+                throw new Error(`${file}:${index + 1}: invalid JSON (${(error as Error).message})`);
+            }
+        });
+}
+
+/**
+ * Every topic embedded in the fixture courses (subjects may be wrapped or bare)
+ */
+function collectCourseTopics(courses: RawRecord[]): RawRecord[] {
+    const topics = new Map<string, RawRecord>();
+    for (const course of courses) {
+        for (const subjectItem of course.subjects || []) {
+            const subject = subjectItem.subject || subjectItem;
+            for (const topicItem of subject.topics || []) {
+                const topic = topicItem.topic || topicItem;
+                if (topic?.slug) topics.set(topic.slug, topic);
+            }
+        }
+    }
+    return Array.from(topics.values());
+}
+
+/**
+ * Create the fixture directory data source
+ */
+export function createFixtureDataSource(): DataSource {
+    const dir = getFixturesDir();
+    if (!fs.existsSync(dir)) {
+        throw new Error(`DATA_SOURCE=fixtures but fixture directory ${dir} does not exist`);
+    }
+
+    let courses: RawRecord[] | null = null;
+    const loadCourses = (): RawRecord[] => {
+        courses ??= readJsonFile<RawRecord[]>(path.join(dir, 'courses.json')) || [];
+        return courses;
+    };
+
+    const loadTopics = (): RawRecord[] =>
+        readJsonFile<RawRecord[]>(path.join(dir, 'topics.json')) || collectCourseTopics(loadCourses());
+
+    return {
+        name: 'fixtures',
+        label: `fixtures ${dir}`,
+
+        async fetchQuestions(maxQuestions?: number): Promise<RawQuestion[]> {
+            const questions = [
+                ...readNdjsonFile(path.join(dir, 'questions.ndjson')),
+                ...(readJsonFile<RawQuestion[]>(path.join(dir, 'questions.json')) || [])
+            ];
+            console.log(`  ✓ Loaded ${questions.length} fixture questions`);
+            return maxQuestions ? questions.slice(0, maxQuestions) : questions;
+        },
+
+        async fetchCourse(slug: string): Promise<RawRecord | null> {
+            return loadCourses().find(course => course.slug === slug) ?? null;
+        },
+
+        async fetchTopics(): Promise<RawRecord[]> {
+            return loadTopics();
+        },
+
+        async fetchTopic(slug: string): Promise<RawRecord | null> {
+            return loadTopics().find(topic => topic.slug === slug) ?? null;
+        }
+    };
+}
@@ -0,0 +1,286 @@
+// HTML Sanitizer
+// Allowlist-based cleanup of rendered markdown before it is injected with
+// set:html. The output is rebuilt from scratch: only allowlisted elements and
+// attributes survive, URLs and inline styles are checked, every text and
+// attribute value is re-escaped, and anything that doesn't parse as a plain
+// tag is emitted as text. Covers the markup marked and KaTeX produce (HTML,
+// KaTeX's SVG and MathML) and the charts of data blocks.
+
+/** Elements kept as-is (attributes still filtered) */
+const ALLOWED_ELEMENTS = new Set([
+    // Text and structure
+    'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'dd', 'del',
+    'details', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5',
+    'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span',
+    'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+    // KaTeX SVG (stretchy delimiters, \cancel, \sqrt) and data block charts
+    'svg', 'path', 'line', 'g', 'rect', 'circle', 'polyline', 'text',
+    // KaTeX MathML
+    'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup',
+    'msub', 'msubsup', 'mfrac', 'msqrt', 'mroot', 'mover', 'munder', 'munderover', 'mtable',
+    'mtr', 'mtd', 'mstyle', 'mpadded', 'mphantom', 'menclose'
+]);
+
+/**
+ * Elements removed together with their content. Raw-text elements
+ * (script, style, ...) are skipped up to their closing tag. Void elements
+ * like embed have no content and are dropped as any unlisted element.
+ */
+const DROPPED_WITH_CONTENT = new Set([
+    'script', 'style', 'iframe', 'frameset', 'object', 'applet', 'template',
+    'noscript', 'noembed', 'noframes', 'textarea', 'title', 'xmp', 'plaintext', 'select', 'option'
+]);
+
+/** Elements without content or closing tag */
+const VOID_ELEMENTS = new Set(['br', 'col', 'hr', 'img', 'wbr']);
+
+/** SVG elements written self-closing (<path ... />) */
+const SELF_CLOSING_SVG = new Set(['path', 'line', 'rect', 'circle', 'polyline']);
+
+const GLOBAL_ATTRIBUTES = ['class', 'id', 'title', 'lang', 'dir', 'style', 'aria-hidden', 'aria-label', 'role'];
+
+/** Extra attributes per element; names keep the case they're written in (SVG is camelCase) */
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height', 'loading'],
+    ol: ['start', 'type'],
+    td: ['colspan', 'rowspan', 'align'],
+    th: ['colspan', 'rowspan', 'align', 'scope'],
+    col: ['span', 'width'],
+    colgroup: ['span'],
+    details: ['open'],
+    svg: ['xmlns', 'width', 'height', 'viewBox', 'preserveAspectRatio'],
+    path: ['d', 'fill', 'stroke', 'stroke-width'],
+    line: ['x1', 'y1', 'x2', 'y2', 'stroke', 'stroke-width'],
+    g: ['transform'],
+    rect: ['x', 'y', 'width', 'height', 'rx', 'fill'],
+    circle: ['cx', 'cy', 'r', 'fill'],
+    polyline: ['points', 'fill', 'stroke', 'stroke-width'],
+    text: ['x', 'y', 'font-size', 'text-anchor', 'fill', 'transform'],
+    math: ['xmlns', 'display'],
+    annotation: ['encoding'],
+    mo: ['stretchy', 'minsize', 'maxsize', 'fence', 'separator', 'mathvariant', 'lspace', 'rspace', 'form', 'largeop', 'movablelimits', 'symmetric'],
+    mi: ['mathvariant'],
+    mn: ['mathvariant'],
+    mtext: ['mathvariant'],
+    mover: ['accent'],
+    munder: ['accentunder'],
+    munderover: ['accent', 'accentunder'],
+    mfrac: ['linethickness'],
+    menclose: ['notation'],
+    mspace: ['width', 'height', 'depth', 'mathbackground'],
+    mpadded: ['width', 'height', 'depth', 'lspace', 'voffset', 'mathbackground'],
+    mstyle: ['scriptlevel', 'displaystyle', 'mathcolor', 'mathbackground', 'mathsize'],
+    mtable: ['rowspacing', 'columnalign', 'columnspacing', 'columnlines', 'rowlines', 'frame', 'width'],
+    mtd: ['width', 'columnalign', 'rowspan', 'columnspan']
+};
+
+/** Inline style properties kept (KaTeX layout plus the renderer's own styling) */
+const ALLOWED_STYLES = new Set([
+    'background-color', 'border', 'border-bottom-width', 'border-color', 'border-radius',
+    'border-right-style', 'border-right-width', 'border-style', 'border-top-width', 'border-width',
+    'bottom', 'color', 'display', 'height', 'left', 'margin', 'margin-left', 'margin-right',
+    'margin-top', 'margin-bottom', 'max-width', 'min-width', 'overflow-x', 'padding-left',
+    'padding-right', 'position', 'text-align', 'top', 'vertical-align', 'width'
+]);
+
+/** CSS functions allowed in style values (colors and lengths only) */
+const ALLOWED_CSS_FUNCTIONS = new Set(['rgb', 'rgba', 'hsl', 'hsla', 'calc']);
+
+const LINK_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+const IMAGE_SCHEMES = new Set(['http', 'https']);
+const DATA_IMAGE = /^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=]+$/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    colon: ':', tab: '\t', newline: '\n', lpar: '(', rpar: ')', sol: '/', period: '.', comma: ','
+};
+
+/**
+ * Escape text for an HTML text node
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape a value for a double-quoted HTML attribute
+ */
+export function escapeAttribute(value: string): string {
+    return escapeHtml(value)
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Decode character references the way a browser would before using an
+ * attribute value (so "javascript&#58;" is seen as "javascript:")
+ */
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Whether a (decoded) URL is safe for href (links) or src (images).
+ * Relative URLs and fragments are allowed; absolute ones need a known scheme.
+ */
+export function isSafeUrl(url: string, kind: 'link' | 'image' = 'link'): boolean {
+    // Browsers ignore control characters and whitespace inside the scheme
+    const compact = url.replace(/[\u0000-\u0020\u007f-\u009f]/g, '');
+    if (kind === 'image' && DATA_IMAGE.test(compact)) return true;
+
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+    if (!scheme) return true;
+    return (kind === 'image' ? IMAGE_SCHEMES : LINK_SCHEMES).has(scheme[1].toLowerCase());
+}
+
+/**
+ * Keep only allowlisted declarations with plain values
+ */
+function sanitizeStyle(style: string): string {
+    return style
+        .split(';')
+        .map(declaration => {
+            const colon = declaration.indexOf(':');
+            if (colon === -1) return '';
+            const property = declaration.slice(0, colon).trim().toLowerCase();
+            const value = declaration.slice(colon + 1).trim();
+            if (!ALLOWED_STYLES.has(property) || !value) return '';
+            if (!/^[-\w\s.,%#()+*/]*$/.test(value) || value.includes('/*')) return '';
+            const functions = value.match(/[a-z-]+(?=\s*\()/gi) || [];
+            if (functions.some(name => !ALLOWED_CSS_FUNCTIONS.has(name.toLowerCase()))) return '';
+            if (property === 'position' && !/^(relative|static)$/i.test(value)) return '';
+            return `${property}:${value}`;
+        })
+        .filter(Boolean)
+        .join(';');
+}
+
+/**
+ * Allowed, cleaned attributes of an element as an attribute string
+ */
+function sanitizeAttributes(element: string, rawAttributes: string): string {
+    const allowed = [...GLOBAL_ATTRIBUTES, ...(ELEMENT_ATTRIBUTES[element] || [])];
+    const canonical = new Map(allowed.map(name => [name.toLowerCase(), name]));
+    const attributes = new Map<string, string>();
+
+    const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    for (const match of rawAttributes.matchAll(pattern)) {
+        const name = canonical.get(match[1].toLowerCase());
+        if (!name || attributes.has(name)) continue;
+        let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+
+        if (name === 'href' && !isSafeUrl(value, 'link')) continue;
+        if (name === 'src' && !isSafeUrl(value, 'image')) continue;
+        if (name === 'target' && value !== '_blank') continue;
+        if (name === 'id' && !/^[a-z0-9][a-z0-9_-]*$/.test(value)) continue;
+        if (name === 'rel') {
+            value = value.split(/\s+/).filter(token => /^(noopener|noreferrer|nofollow|ugc)$/i.test(token)).join(' ');
+            if (!value) continue;
+        }
+        if (name === 'style') {
+            value = sanitizeStyle(value);
+            if (!value) continue;
+        }
+        attributes.set(name, value);
+    }
+
+    // New tabs never get a handle on this page
+    if (attributes.get('target') === '_blank') {
+        const rel = new Set((attributes.get('rel') || '').split(/\s+/).filter(Boolean));
+        rel.add('noopener');
+        rel.add('noreferrer');
+        attributes.set('rel', Array.from(rel).join(' '));
+    }
+
+    return Array.from(attributes, ([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+}
+
+/**
+ * Text between tags: existing character references are kept, stray "&", "<"
+ * and ">" are escaped
+ */
+function sanitizeText(text: string): string {
+    return text
+        .replace(/&(?!(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);)/gi, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+const TOKEN = new RegExp([
+    '<!--[\\s\\S]*?(?:-->|$)',                  // comment
+    '<!\\[CDATA\\[[\\s\\S]*?(?:\\]\\]>|$)',      // CDATA
+    '<[!?][^>]*>?',                              // doctype, processing instruction
+    '<(/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\\s+[^\\s"\'>/=]+(?:\\s*=\\s*(?:"[^"]*"|\'[^\']*\'|[^\\s"\'=<>`]+))?)*)\\s*(/?)>'
+].join('|'), 'g');
+
+/**
+ * Sanitize an HTML fragment against the allowlist. Unclosed elements are
+ * closed and stray closing tags dropped, so the fragment can't break out of
+ * the element it's injected into.
+ */
+export function sanitizeHtml(html: string): string {
+    if (!html) return '';
+
+    let output = '';
+    let position = 0;
+    const open: string[] = [];
+
+    TOKEN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN.exec(html)) !== null) {
+        output += sanitizeText(html.slice(position, match.index));
+        position = TOKEN.lastIndex;
+
+        const [, closing, rawName, rawAttributes, selfClosing] = match;
+        if (!rawName) continue; // comment, CDATA, doctype
+
+        const element = rawName.toLowerCase();
+        if (DROPPED_WITH_CONTENT.has(element)) {
+            if (!closing) {
+                const end = new RegExp(`</${element}[\\s/>]`, 'i').exec(html.slice(position));
+                const afterEnd = end ? html.indexOf('>', position + end.index) + 1 : 0;
+                position = end && afterEnd > 0 ? afterEnd : html.length;
+                TOKEN.lastIndex = position;
+            }
+            continue;
+        }
+        if (!ALLOWED_ELEMENTS.has(element)) continue;
+
+        if (closing) {
+            const index = open.lastIndexOf(element);
+            if (index === -1) continue;
+            while (open.length > index) {
+                output += `</${open.pop()}>`;
+            }
+            continue;
+        }
+
+        const attributes = sanitizeAttributes(element, rawAttributes);
+        if (VOID_ELEMENTS.has(element)) {
+            output += `<${element}${attributes}>`;
+        } else if (SELF_CLOSING_SVG.has(element) && selfClosing) {
+            output += `<${element}${attributes}/>`;
+        } else {
+            output += `<${element}${attributes}>`;
+            open.push(element);
+        }
+    }
+
+    output += sanitizeText(html.slice(position));
+    while (open.length > 0) {
+        output += `</${open.pop()}>`;
+    }
+    return output;
+}
@@ -0,0 +1,119 @@
+// HTTP Utilities
+// Shared fetch layer for build-time API calls: timeouts, retries with
+// exponential backoff, and bounded concurrency for paginated endpoints.
+import { getEnvNumber } from './env';
+
+const DEFAULT_TIMEOUT_MS = getEnvNumber('HTTP_TIMEOUT_MS', 30000);
+const DEFAULT_RETRIES = getEnvNumber('HTTP_RETRIES', 3);
+const BASE_BACKOFF_MS = getEnvNumber('HTTP_BACKOFF_MS', 500);
+const MAX_BACKOFF_MS = 15000;
+
+export const DEFAULT_CONCURRENCY = getEnvNumber('HTTP_CONCURRENCY', 4);
+
+/**
+ * Error for non-2xx responses (status is available for 404 handling etc.)
+ */
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly url: string,
+        statusText: string
+    ) {
+        super(`HTTP ${status}: ${statusText} (${url})`);
+        this.name = 'HttpError';
+    }
+}
+
+export interface FetchJsonOptions {
+    /** Per-attempt timeout in ms */
+    timeoutMs?: number;
+    /** Retries after the first attempt */
+    retries?: number;
+}
+
+/**
+ * True when the server could not be reached or didn't answer in time,
+ * as opposed to answering with an error status
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (error instanceof HttpError) return false;
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) return true;
+    return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+function isRetryable(error: unknown): boolean {
+    if (error instanceof HttpError) {
+        return error.status === 429 || error.status >= 500;
+    }
+    return isNetworkError(error);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Backoff before the given retry attempt (1-based), with jitter.
+ * Honors Retry-After (seconds) when the server sends it.
+ */
+function getBackoffMs(attempt: number, retryAfter?: string | null): number {
+    const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+    if (Number.isFinite(retryAfterSeconds)) {
+        return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+    }
+    const exponential = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+    return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+}
+
+/**
+ * GET a URL and parse JSON, retrying 5xx/429/network errors with backoff.
+ * Throws HttpError for other statuses (callers decide what a 404 means).
+ */
+export async function fetchJson<T = any>(url: string, options: FetchJsonOptions = {}): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        let retryAfter: string | null = null;
+        try {
+            const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+
+            if (!response.ok) {
+                retryAfter = response.headers.get('retry-after');
+                throw new HttpError(response.status, url, response.statusText);
+            }
+
+            return await response.json() as T;
+        } catch (error) {
+            if (attempt >= retries || !isRetryable(error)) {
+                throw error;
+            }
+            const delay = getBackoffMs(attempt + 1, retryAfter);
+            const reason = error instanceof Error ? error.message : String(error);
+            console.warn(`  ↻ Retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms: ${reason}`);
+            await sleep(delay);
+        }
+    }
+}
+
+/**
+ * Map over items with at most `limit` promises in flight.
+ * Results keep the input order; the first rejection rejects the whole map.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,153 @@
+// Localization
+// Locales the SEO layer publishes, their UI strings (src/data/i18n.json) and
+// helpers for translated questions and lessons. English is the default locale
+// and keeps the unprefixed URLs; every other locale lives under /<locale>/ and
+// only gets a page when the content has a translation for it.
+import type { Locale, Question, LearningTopic } from '../types';
+import i18nData from '../data/i18n.json';
+
+const SITE_URL = 'https://aptidude.in';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: readonly Locale[] = ['en', 'hi'];
+
+/** Locales content can be translated into */
+export const TRANSLATION_LOCALES: readonly Locale[] = LOCALES.filter(locale => locale !== DEFAULT_LOCALE);
+
+export type UiStringKey = keyof typeof i18nData.strings.en;
+
+interface LocaleInfo {
+    /** Name in the language itself, for the language switcher */
+    name: string;
+    /** Open Graph locale, e.g. hi_IN */
+    ogLocale: string;
+}
+
+/**
+ * Check that every locale has its info and every English string; throws with
+ * every problem listed so a missing translation fails the build
+ */
+export function parseI18nData(data: typeof i18nData): void {
+    const issues: string[] = [];
+    const locales = data.locales as Record<string, LocaleInfo | undefined>;
+    const strings = data.strings as Record<string, Record<string, string> | undefined>;
+
+    for (const locale of LOCALES) {
+        if (!locales[locale]) issues.push(`  locales.${locale}: missing`);
+        for (const key of Object.keys(data.strings.en)) {
+            if (!strings[locale]?.[key]) issues.push(`  strings.${locale}.${key}: missing`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid src/data/i18n.json:\n${issues.join('\n')}`);
+    }
+}
+
+parseI18nData(i18nData);
+
+const localeInfo = i18nData.locales as Record<Locale, LocaleInfo>;
+const uiStrings = i18nData.strings as Record<Locale, Record<UiStringKey, string>>;
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+export function getLocaleInfo(locale: Locale): LocaleInfo {
+    return localeInfo[locale];
+}
+
+/**
+ * UI string with {placeholders} filled; missing values become empty
+ */
+export function t(locale: Locale, key: UiStringKey, values: Record<string, string | number | undefined> = {}): string {
+    return uiStrings[locale][key].replace(/\{(\w+)\}/g, (_, name: string) => String(values[name] ?? ''));
+}
+
+/**
+ * Difficulty label in the locale (unknown difficulties are shown as-is)
+ */
+export function getDifficultyLabel(locale: Locale, difficulty?: string): string | undefined {
+    if (!difficulty) return undefined;
+    const key = `difficulty.${difficulty}`;
+    return key in uiStrings[locale] ? uiStrings[locale][key as UiStringKey] : difficulty;
+}
+
+/**
+ * Path of a page in the locale: /questions/x → /hi/questions/x
+ */
+export function localizePath(path: string, locale: Locale): string {
+    if (locale === DEFAULT_LOCALE) return path;
+    return `/${locale}${path === '/' ? '' : path}`;
+}
+
+/**
+ * Value of a [...locale] route param (undefined for the default locale)
+ */
+export function getLocaleParam(locale: Locale): string | undefined {
+    return locale === DEFAULT_LOCALE ? undefined : locale;
+}
+
+export interface LocaleAlternate {
+    hreflang: string;
+    href: string;
+}
+
+/**
+ * hreflang alternates of a page published in `locales`, plus x-default (the
+ * English page). Empty when the page exists in one locale only.
+ */
+export function getAlternates(path: string, locales: readonly Locale[]): LocaleAlternate[] {
+    if (locales.length < 2) return [];
+    return [
+        ...locales.map(locale => ({ hreflang: locale, href: `${SITE_URL}${localizePath(path, locale)}` })),
+        { hreflang: 'x-default', href: `${SITE_URL}${localizePath(path, DEFAULT_LOCALE)}` }
+    ];
+}
+
+/**
+ * Locales a question is published in
+ */
+export function getQuestionLocales(question: Question): Locale[] {
+    return LOCALES.filter(locale => locale === DEFAULT_LOCALE || question.translations?.[locale]);
+}
+
+/**
+ * The question with its text replaced by the locale's translation (fields
+ * the translation leaves out keep the English text)
+ */
+export function localizeQuestion(question: Question, locale: Locale): Question {
+    const translation = locale === DEFAULT_LOCALE ? undefined : question.translations?.[locale];
+    if (!translation) return question;
+    return {
+        ...question,
+        statement: translation.statement ?? question.statement,
+        passage: translation.passage ?? question.passage,
+        options: translation.options ?? question.options,
+        explanation: translation.explanation ?? question.explanation
+    };
+}
+
+/**
+ * Locales a lesson is published in
+ */
+export function getTopicLocales(topic: LearningTopic): Locale[] {
+    return LOCALES.filter(locale => locale === DEFAULT_LOCALE || topic.translations?.[locale]);
+}
+
+/**
+ * The lesson in the locale. Nothing falls back to English: an English
+ * description or headings on a translated page would be wrong.
+ */
+export function localizeTopic(topic: LearningTopic, locale: Locale): LearningTopic {
+    const translation = locale === DEFAULT_LOCALE ? undefined : topic.translations?.[locale];
+    if (!translation) return topic;
+    return {
+        ...topic,
+        title: translation.title,
+        description: translation.description,
+        content: translation.content,
+        headings: translation.headings
+    };
+}
@@ -0,0 +1,210 @@
+// Landing Pages
+// Static landing pages for an exam's sub-exams (/learn/:exam/sub-exam/:name),
+// an exam's sections (/learn/:exam/section/:name) and question tags
+// (/tags/:tag). Buckets below LANDING_MIN_QUESTIONS aren't generated.
+import type { Question } from '../types';
+import { buildQuestionIndexes } from './dataFetcher';
+import { createSlug } from './seoGenerator';
+import { getExamKeywords } from './examSeoConfig';
+import { getTopicListingPath } from './topicListing';
+import { writeBuildReport } from './buildReport';
+import { getEnvNumber } from './env';
+
+/** Fewest questions a landing page needs to be generated */
+export const LANDING_MIN_QUESTIONS = Math.max(1, getEnvNumber('LANDING_MIN_QUESTIONS', 5));
+
+/** Questions listed on a landing page; the topic links cover the rest */
+const LANDING_MAX_QUESTIONS = 60;
+
+export type LandingPageKind = 'subExam' | 'section' | 'tag';
+
+export interface LandingTopic {
+    name: string;
+    exam: string;
+    count: number;
+    /** Exam-topic listing the topic links to */
+    path: string;
+}
+
+export interface LandingPage {
+    kind: LandingPageKind;
+    name: string;
+    slug: string;
+    /** Exam the page belongs to (not set on tag pages) */
+    exam?: string;
+    examSlug?: string;
+    path: string;
+    /** Newest questions first, at most LANDING_MAX_QUESTIONS */
+    questions: Question[];
+    totalQuestions: number;
+    topics: LandingTopic[];
+    difficultyCount: { easy: number; medium: number; hard: number };
+    /** Latest updatedAt of its questions */
+    lastmod?: string;
+}
+
+export function getSubExamPath(examSlug: string, slug: string): string {
+    return `/learn/${examSlug}/sub-exam/${slug}`;
+}
+
+export function getSectionPath(examSlug: string, slug: string): string {
+    return `/learn/${examSlug}/section/${slug}`;
+}
+
+export function getTagPath(slug: string): string {
+    return `/tags/${slug}`;
+}
+
+/**
+ * Most frequent spelling of a tag ("Profit and Loss" vs "profit and loss")
+ */
+function tagDisplayName(tag: string, questions: Question[]): string {
+    const spellings = new Map<string, number>();
+    for (const q of questions) {
+        for (const original of q.tags || []) {
+            if (original.toLowerCase() === tag) {
+                spellings.set(original, (spellings.get(original) || 0) + 1);
+            }
+        }
+    }
+    return Array.from(spellings).sort((a, b) => b[1] - a[1])[0]?.[0] || tag;
+}
+
+function createLandingPage(
+    kind: LandingPageKind,
+    name: string,
+    path: string,
+    questions: Question[],
+    exam?: string
+): LandingPage {
+    const sorted = [...questions].sort((a, b) => b.questionNumber - a.questionNumber);
+    const countDifficulty = (difficulty: string) =>
+        questions.filter(q => q.difficulty?.toLowerCase() === difficulty).length;
+
+    const topics = new Map<string, LandingTopic>();
+    for (const q of questions) {
+        if (!q.topic || !q.exam) continue;
+        const key = `${q.exam}::${q.topic}`;
+        if (!topics.has(key)) {
+            topics.set(key, {
+                name: q.topic,
+                exam: q.exam,
+                count: 0,
+                path: getTopicListingPath(createSlug(q.exam), createSlug(q.topic))
+            });
+        }
+        topics.get(key)!.count++;
+    }
+
+    return {
+        kind,
+        name,
+        slug: path.split('/').pop()!,
+        ...(exam && { exam, examSlug: createSlug(exam) }),
+        path,
+        questions: sorted.slice(0, LANDING_MAX_QUESTIONS),
+        totalQuestions: questions.length,
+        topics: Array.from(topics.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+        difficultyCount: {
+            easy: countDifficulty('easy'),
+            medium: countDifficulty('medium'),
+            hard: countDifficulty('hard')
+        },
+        lastmod: questions.reduce<string | undefined>((latest, q) =>
+            !latest || new Date(q.updatedAt).getTime() > new Date(latest).getTime() ? q.updatedAt : latest, undefined)
+    };
+}
+
+/**
+ * Every sub-exam, section and tag landing page with at least
+ * LANDING_MIN_QUESTIONS questions. Skipped buckets are listed in
+ * reports/landing-pages.json.
+ */
+export function buildLandingPages(questions: Question[]): LandingPage[] {
+    const indexes = buildQuestionIndexes(questions);
+    const pages: LandingPage[] = [];
+    const paths = new Set<string>();
+    const skipped: Array<{ kind: LandingPageKind; name: string; questions: number; reason: string }> = [];
+
+    const add = (kind: LandingPageKind, name: string, path: string, bucket: Question[], exam?: string) => {
+        if (bucket.length < LANDING_MIN_QUESTIONS) {
+            skipped.push({ kind, name, questions: bucket.length, reason: 'below minimum' });
+        } else if (!path.split('/').pop() || paths.has(path)) {
+            // Names that slug to nothing or to an existing page
+            skipped.push({ kind, name, questions: bucket.length, reason: 'slug conflict' });
+            console.warn(`⚠️  Landing page "${name}" skipped: ${path} is not a unique path`);
+        } else {
+            paths.add(path);
+            pages.push(createLandingPage(kind, name, path, bucket, exam));
+        }
+    };
+
+    // Largest buckets first so a slug conflict keeps the bigger page
+    const bySize = (map: Map<string, Question[]>) =>
+        Array.from(map).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+
+    for (const [key, bucket] of bySize(indexes.byExamAndSubExam)) {
+        const [exam, subExam] = key.split('::');
+        add('subExam', subExam, getSubExamPath(createSlug(exam), createSlug(subExam)), bucket, exam);
+    }
+    for (const [key, bucket] of bySize(indexes.byExamAndSection)) {
+        const [exam, section] = key.split('::');
+        add('section', section, getSectionPath(createSlug(exam), createSlug(section)), bucket, exam);
+    }
+    for (const [tag, bucket] of bySize(indexes.byTag)) {
+        add('tag', tagDisplayName(tag, bucket), getTagPath(createSlug(tag)), bucket);
+    }
+
+    writeBuildReport('landing-pages', {
+        minQuestions: LANDING_MIN_QUESTIONS,
+        generated: {
+            subExam: pages.filter(page => page.kind === 'subExam').length,
+            section: pages.filter(page => page.kind === 'section').length,
+            tag: pages.filter(page => page.kind === 'tag').length
+        },
+        skipped
+    });
+
+    return pages;
+}
+
+/**
+ * Title, description, keywords and H1 of a landing page
+ */
+export function getLandingSEO(page: LandingPage): { title: string; description: string; keywords: string; heading: string } {
+    const { easy, medium, hard } = page.difficultyCount;
+    const topicNames = page.topics.slice(0, 3).map(topic => topic.name);
+    const topicSummary = topicNames.length > 0 ? ` covering ${topicNames.join(', ')}${page.topics.length > 3 ? ' and more' : ''}` : '';
+    const mix = `${easy} easy, ${medium} medium and ${hard} hard`;
+
+    switch (page.kind) {
+        case 'subExam': {
+            const heading = `${page.exam} ${page.name} Questions`;
+            return {
+                heading,
+                title: `${heading} - ${page.totalQuestions} Practice Problems | AptiDude`,
+                description: `Practice ${page.totalQuestions} ${page.exam} ${page.name} aptitude questions${topicSummary}. Includes ${mix} problems with step-by-step solutions.`,
+                keywords: [`${page.exam} ${page.name}`, ...getExamKeywords(page.exam, page.name), ...topicNames].join(', ')
+            };
+        }
+        case 'section': {
+            const heading = `${page.name} for ${page.exam}`;
+            return {
+                heading,
+                title: `${heading} - ${page.totalQuestions} Practice Questions | AptiDude`,
+                description: `Practice ${page.totalQuestions} ${page.name} questions from the ${page.exam} syllabus${topicSummary}. Includes ${mix} problems with step-by-step solutions.`,
+                keywords: [page.name, page.exam, ...getExamKeywords(page.exam), ...topicNames].join(', ')
+            };
+        }
+        case 'tag': {
+            const exams = [...new Set(page.topics.map(topic => topic.exam))];
+            const heading = `${page.name.replace(/\b[a-z]/g, letter => letter.toUpperCase())} Questions`;
+            return {
+                heading,
+                title: `${heading} - ${page.totalQuestions} Aptitude Practice Problems | AptiDude`,
+                description: `Practice ${page.totalQuestions} ${page.name} aptitude questions from ${exams.slice(0, 3).join(', ')}${exams.length > 3 ? ' and more exams' : ''}. Includes ${mix} problems with step-by-step solutions.`,
+                keywords: [page.name, `${page.name} questions`, ...exams, ...topicNames].join(', ')
+            };
+        }
+    }
+}
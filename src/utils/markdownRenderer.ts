@@ -1,139 +1,375 @@
 // Markdown and Math Renderer for Astro
 // Consistent with React frontend's MarkdownRenderer component
-import { marked } from 'marked';
+// Rendered HTML goes through sanitizeHtml before it reaches set:html, and the
+// custom renderers escape everything they interpolate.
+// Math is a marked extension, so delimiters only count in text: code spans and
+// blocks keep their $ and KaTeX output is never re-read as markdown.
+import { Marked, type Tokens, type TokenizerAndRendererExtension } from 'marked';
 import katex from 'katex';
+// Registers \ce{} and \pu{} (chemistry) with KaTeX
+import 'katex/contrib/mhchem';
+import type { Locale, TopicHeading } from '../types';
+import { DEFAULT_LOCALE } from './i18n';
+import { sanitizeHtml, escapeHtml, escapeAttribute } from './htmlSanitizer';
+import { renderChartBlock, renderDataTableBlock } from './dataBlocks';
+import { writeBuildReport } from './buildReport';
+
+export interface RenderedMarkdown {
+  html: string;
+  /** Every heading in document order, with the id it was rendered with */
+  headings: TopicHeading[];
+}
+
+// Anchor ids assigned by renderMarkdownWithOutline, read by the heading renderer
+const headingIds = new WeakMap<Tokens.Heading, string>();
+
+// ============================================================================
+// Math
+// ============================================================================
+
+interface MathToken {
+  type: 'blockMath' | 'inlineMath';
+  raw: string;
+  text: string;
+  displayMode: boolean;
+}
+
+// What is being rendered ("question 1001 statement"), named in error reports
+let renderSource: string | undefined;
+
+// Locale of the page being rendered, for labels chart/data-table blocks add
+let renderLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * Collector for content that failed to render, listed per source in
+ * reports/<name>.json
+ */
+function createErrorReport(name: string, label: string) {
+  const errors: Record<string, Array<{ input: string; message: string }>> = {};
+
+  return (input: string, error: unknown): void => {
+    const source = renderSource || 'unknown';
+    const sourceErrors = (errors[source] ||= []);
+    if (sourceErrors.some(known => known.input === input)) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️  ${label} in ${source}: ${message}`);
+    sourceErrors.push({ input, message });
+    writeBuildReport(name, {
+      sources: Object.keys(errors).length,
+      errors
+    });
+  };
+}
+
+const recordMathError = createErrorReport('math-errors', 'KaTeX error');
+const recordBlockError = createErrorReport('data-block-errors', 'Invalid data block');
+
+/**
+ * KaTeX HTML for a formula. Invalid TeX is reported and rendered as
+ * KaTeX's red error text.
+ */
+function renderTex(tex: string, displayMode: boolean): string {
+  const options = { displayMode, strict: false as const };
+  try {
+    return katex.renderToString(tex, { ...options, throwOnError: true });
+  } catch (error) {
+    recordMathError(tex, error);
+    try {
+      return katex.renderToString(tex, { ...options, throwOnError: false });
+    } catch {
+      return `<span class="katex-error">${escapeHtml(tex)}</span>`;
+    }
+  }
+}
+
+// $$...$$ or \[...\] on lines of their own
+const BLOCK_MATH = /^ {0,3}(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n+|$)/;
+// $$...$$ and \[...\] inside a paragraph (display), \(...\) and $...$ (inline).
+// A closing $ followed by a digit or an opening $ followed by a number
+// ("$5 and $10") is currency, not math.
+const DISPLAY_INLINE_MATH = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])/;
+const PAREN_MATH = /^\\\(([\s\S]+?)\\\)/;
+const DOLLAR_MATH = /^\$(?!\$)((?:\\[\s\S]|[^\\$\n])+?)\$(?!\d)/;
+
+/**
+ * The formula at the start of inline text, if any
+ */
+function matchInlineMath(src: string): MathToken | undefined {
+  const display = DISPLAY_INLINE_MATH.exec(src);
+  if (display) {
+    return { type: 'inlineMath', raw: display[0], text: (display[1] ?? display[2]).trim(), displayMode: true };
+  }
+
+  const paren = PAREN_MATH.exec(src);
+  if (paren) {
+    return { type: 'inlineMath', raw: paren[0], text: paren[1].trim(), displayMode: false };
+  }
+
+  const dollar = DOLLAR_MATH.exec(src);
+  if (!dollar) return undefined;
+  const formula = dollar[1];
+  // Currency: "$5$"-like amounts, or "$5 and $x$" where the first $ pairs
+  // with the wrong one. Padded formulas ("$ 40 $") are math.
+  if (/^\d+([.,]\d+)?$/.test(formula)) return undefined;
+  if (/\s$/.test(formula) && !/^\s/.test(formula)) return undefined;
+  return { type: 'inlineMath', raw: dollar[0], text: formula.trim(), displayMode: false };
+}
+
+const mathExtensions: TokenizerAndRendererExtension[] = [
+  {
+    name: 'blockMath',
+    level: 'block',
+    // Only where a line starts, so a $$ mid-line doesn't split its paragraph
+    start: src => src.match(/(?:^|\n) {0,3}(?:\$\$|\\\[)/)?.index,
+    tokenizer(src): MathToken | undefined {
+      const match = BLOCK_MATH.exec(src);
+      if (!match) return undefined;
+      return { type: 'blockMath', raw: match[0], text: (match[1] ?? match[2]).trim(), displayMode: true };
+    },
+    renderer: token => `<div class="katex-display">${renderTex(token.text, true)}</div>\n`
+  },
+  {
+    name: 'inlineMath',
+    level: 'inline',
+    start: src => src.match(/\$|\\[([]/)?.index,
+    tokenizer: src => matchInlineMath(src),
+    renderer: token => token.displayMode
+      ? `<div class="katex-display">${renderTex(token.text, true)}</div>`
+      : renderTex(token.text, false)
+  }
+];
+
+// Configured once; options match the React frontend (breaks + GFM)
+const markdown = new Marked({
+  breaks: true, // Convert \n to <br>
+  gfm: true,    // GitHub Flavored Markdown
+  extensions: mathExtensions,
+  renderer: {
+    // Anchor ids on headings of documents rendered with an outline
+    heading(token: Tokens.Heading) {
+      const id = headingIds.get(token);
+      const text = this.parser.parseInline(token.tokens);
+      return `<h${token.depth}${id ? ` id="${escapeAttribute(id)}"` : ''}>${text}</h${token.depth}>\n`;
+    },
+
+    // Style links
+    link({ href, title, tokens }: Tokens.Link) {
+      const text = this.parser.parseInline(tokens);
+      const isExternal = href?.startsWith('http');
+      const attrs = isExternal 
+        ? ` target="_blank" rel="noopener noreferrer"` 
+        : '';
+      return `<a href="${escapeAttribute(href)}"${attrs}${title ? ` title="${escapeAttribute(title)}"` : ''}>${text}</a>`;
+    },
+
+    // Style images
+    image({ href, title, text }: Tokens.Image) {
+      return `<img src="${escapeAttribute(href)}" alt="${escapeAttribute(text || 'Image')}" loading="lazy" style="max-width: 100%; height: auto; border-radius: 0.375rem; margin: 0.5rem 0;"${title ? ` title="${escapeAttribute(title)}"` : ''}>`;
+    },
+
+    // Style tables with overflow wrapper
+    table(token: Tokens.Table) {
+      const headerRow = token.header.map(cell => `<th>${this.parser.parseInline(cell.tokens)}</th>`).join('');
+      const bodyRows = token.rows.map(row => 
+        `<tr>${row.map(cell => `<td>${this.parser.parseInline(cell.tokens)}</td>`).join('')}</tr>`
+      ).join('');
+      return `<div style="overflow-x: auto; max-width: 100%; margin: 1rem 0;"><table><thead><tr>${headerRow}</tr></thead><tbody>${bodyRows}</tbody></table></div>`;
+    },
+
+    // Style code blocks; ```chart and ```data-table render their data
+    code({ text, lang, escaped }: Tokens.Code) {
+      const kind = lang?.match(/^\S*/)?.[0];
+      const blockRenderer = kind === 'chart' ? renderChartBlock : kind === 'data-table' ? renderDataTableBlock : undefined;
+      if (blockRenderer) {
+        try {
+          return blockRenderer(text, renderLocale);
+        } catch (error) {
+          // Shown as the plain block so the data is still readable
+          recordBlockError(text, error);
+        }
+      }
+
+      const code = escaped ? text : escapeHtml(text);
+      return `<pre><code class="language-${escapeAttribute(lang || '')}">${code}</code></pre>`;
+    }
+  }
+});
 
 /**
  * Render markdown with LaTeX math support
- * Supports both inline math ($...$) and block math ($$...$$)
- * Also handles \(...\) and \[...\] LaTeX delimiters
+ * Supports both inline math ($...$, \(...\)) and display math ($$...$$, \[...\]).
+ * `source` names the content in reports/math-errors.json ("question 1001 statement");
+ * `locale` is the page's, for the labels of chart/data-table blocks.
  */
-export function renderMarkdown(content: string): string {
+export function renderMarkdown(content: string, source?: string, locale: Locale = DEFAULT_LOCALE): string {
   if (!content || typeof content !== 'string') {
     return '';
   }
 
-  let processed = content;
+  renderSource = source;
+  renderLocale = locale;
+  // Render markdown, then strip anything the allowlist doesn't know
+  try {
+    return sanitizeHtml(markdown.parse(content) as string);
+  } catch (error) {
+    console.error('Markdown parsing error:', error);
+    // Fallback to plain text with basic formatting
+    return escapeHtml(content).replace(/\n/g, '<br>');
+  } finally {
+    renderSource = undefined;
+    renderLocale = DEFAULT_LOCALE;
+  }
+}
 
-  // Process block math with $$ delimiters
-  processed = processed.replace(/\$\$([\s\S]*?)\$\$/g, (match, formula) => {
-    try {
-      const rendered = katex.renderToString(formula.trim(), {
-        displayMode: true,
-        throwOnError: false,
-        strict: false,
-      });
-      return `<div class="katex-display">${rendered}</div>`;
-    } catch (error) {
-      console.warn('KaTeX block rendering error:', error);
-      return match;
+/**
+ * Plain text of rendered inline HTML; KaTeX output becomes its TeX source
+ */
+function headingText(html: string): string {
+  let text = '';
+  let position = 0;
+  let start: number;
+  while ((start = html.indexOf('<span class="katex">', position)) !== -1) {
+    // Find the matching </span> of the KaTeX wrapper
+    const spans = /<span\b|<\/span>/g;
+    spans.lastIndex = start;
+    let depth = 0;
+    let end = html.length;
+    for (let match; (match = spans.exec(html)) !== null;) {
+      depth += match[0] === '</span>' ? -1 : 1;
+      if (depth === 0) {
+        end = spans.lastIndex;
+        break;
+      }
     }
-  });
+    const tex = /<annotation encoding="application\/x-tex">([\s\S]*?)<\/annotation>/.exec(html.slice(start, end));
+    text += html.slice(position, start) + (tex ? tex[1] : '');
+    position = end;
+  }
+  text += html.slice(position);
 
-  // Process block math with \[...\] delimiters
-  processed = processed.replace(/\\\[([\s\S]*?)\\\]/g, (match, formula) => {
-    try {
-      const rendered = katex.renderToString(formula.trim(), {
-        displayMode: true,
-        throwOnError: false,
-        strict: false,
-      });
-      return `<div class="katex-display">${rendered}</div>`;
-    } catch (error) {
-      console.warn('KaTeX block rendering error:', error);
-      return match;
-    }
-  });
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
 
-  // Process inline math with $ delimiters (being careful not to match currency)
-  // Match $...$ but not when preceded by \ or when it looks like currency ($123)
-  processed = processed.replace(/(?<!\\)\$([^$\n]+?)\$(?!\d)/g, (match, formula) => {
-    // Skip if it looks like a currency amount
-    if (/^\d+([.,]\d+)?$/.test(formula.trim())) {
-      return match;
-    }
-    try {
-      const rendered = katex.renderToString(formula.trim(), {
-        displayMode: false,
-        throwOnError: false,
-        strict: false,
-      });
-      return rendered;
-    } catch (error) {
-      console.warn('KaTeX inline rendering error:', error);
-      return match;
-    }
-  });
+/**
+ * GitHub-style anchor slug: lowercase, punctuation dropped, spaces to dashes
+ */
+function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
 
-  // Process inline math with \(...\) delimiters
-  processed = processed.replace(/\\\(([\s\S]*?)\\\)/g, (match, formula) => {
-    try {
-      const rendered = katex.renderToString(formula.trim(), {
-        displayMode: false,
-        throwOnError: false,
-        strict: false,
-      });
-      return rendered;
-    } catch (error) {
-      console.warn('KaTeX inline rendering error:', error);
-      return match;
-    }
-  });
+/** Ids the sanitizer keeps (lowercase ASCII slugs) */
+const isValidId = (id: string) => /^[a-z0-9][a-z0-9_-]*$/.test(id);
 
-  // Configure marked options for consistency with React
-  marked.setOptions({
-    breaks: true, // Convert \n to <br>
-    gfm: true,    // GitHub Flavored Markdown
-  });
+/**
+ * Render a document and return its heading outline alongside the HTML.
+ * Headings get the id of the supplied heading with the same text (e.g.
+ * LearningTopic.headings from the API) or one slugged from their text;
+ * ids are unique within the document.
+ */
+export function renderMarkdownWithOutline(
+  content: string,
+  knownHeadings: TopicHeading[] = [],
+  source?: string,
+  locale: Locale = DEFAULT_LOCALE
+): RenderedMarkdown {
+  if (!content || typeof content !== 'string') {
+    return { html: '', headings: [] };
+  }
 
-  // Custom renderer for better styling
-  const renderer = new marked.Renderer();
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const unmatched = [...knownHeadings];
+  const used = new Set<string>();
+  const headings: TopicHeading[] = [];
 
-  // Style links
-  renderer.link = ({ href, title, text }: { href: string; title?: string | null; text: string }) => {
-    const isExternal = href?.startsWith('http');
-    const attrs = isExternal 
-      ? `target="_blank" rel="noopener noreferrer"` 
-      : '';
-    return `<a href="${href}" ${attrs}${title ? ` title="${title}"` : ''}>${text}</a>`;
-  };
+  renderSource = source;
+  renderLocale = locale;
+  try {
+    const tokens = markdown.lexer(content);
 
-  // Style images
-  renderer.image = ({ href, title, text }: { href: string; title?: string | null; text: string }) => {
-    return `<img src="${href}" alt="${text || 'Image'}" loading="lazy" style="max-width: 100%; height: auto; border-radius: 0.375rem; margin: 0.5rem 0;"${title ? ` title="${title}"` : ''}>`;
-  };
+    markdown.walkTokens(tokens, token => {
+      if (token.type !== 'heading') return;
+      const heading = token as Tokens.Heading;
+      const text = headingText(markdown.parseInline(heading.text) as string);
 
-  // Style tables with overflow wrapper
-  renderer.table = (token: Parameters<typeof renderer.table>[0]) => {
-    const headerRow = token.header.map(cell => `<th>${cell.text}</th>`).join('');
-    const bodyRows = token.rows.map(row => 
-      `<tr>${row.map(cell => `<td>${cell.text}</td>`).join('')}</tr>`
-    ).join('');
-    return `<div style="overflow-x: auto; max-width: 100%; margin: 1rem 0;"><table><thead><tr>${headerRow}</tr></thead><tbody>${bodyRows}</tbody></table></div>`;
-  };
+      const knownIndex = unmatched.findIndex(known => normalize(known.text) === normalize(text));
+      const known = knownIndex !== -1 ? unmatched.splice(knownIndex, 1)[0] : undefined;
 
-  // Style code blocks
-  renderer.code = ({ text, lang }: { text: string; lang?: string }) => {
-    return `<pre><code class="language-${lang || ''}">${text}</code></pre>`;
-  };
+      let base = known && isValidId(known.id) ? known.id : slugifyHeading(text);
+      if (!isValidId(base)) base = `section-${headings.length + 1}`;
+      let id = base;
+      for (let n = 2; used.has(id); n++) {
+        id = `${base}-${n}`;
+      }
 
-  marked.use({ renderer });
+      used.add(id);
+      headingIds.set(heading, id);
+      headings.push({ id, text, level: heading.depth });
+    });
 
-  // Render markdown
-  try {
-    const html = marked.parse(processed);
-    return html as string;
+    return { html: sanitizeHtml(markdown.parser(tokens)), headings };
   } catch (error) {
     console.error('Markdown parsing error:', error);
-    // Fallback to plain text with basic formatting
-    return processed
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/\n/g, '<br>');
+    return { html: escapeHtml(content).replace(/\n/g, '<br>'), headings: [] };
+  } finally {
+    renderSource = undefined;
+    renderLocale = DEFAULT_LOCALE;
   }
 }
 
+// Fenced code block from its opening fence to the closing one (or the end)
+const CODE_FENCE = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n {0,3}\1[`~]*[ \t]*(?=\n|$)|$)/;
+const CODE_SPAN = /^(`+)(?!`)[\s\S]*?[^`]\1(?!`)/;
+
+/**
+ * Replace every formula of markdown source with `replace(tex)`, finding them
+ * with the renderer's delimiter rules so plain text agrees with the page:
+ * currency stays text, code and escaped \$ are left alone.
+ */
+export function replaceMath(content: string, replace: (tex: string, displayMode: boolean) => string): string {
+  const special = /[`~$\\]/g;
+  let result = '';
+  let position = 0;
+
+  for (let match; (match = special.exec(content)) !== null;) {
+    const at = match.index;
+    const src = content.slice(at);
+    const lineStart = content.lastIndexOf('\n', at - 1) + 1;
+    const fence = /^ {0,3}$/.test(content.slice(lineStart, at)) ? CODE_FENCE.exec(src) : null;
+    const code = fence || (src[0] === '`' ? CODE_SPAN.exec(src) : null);
+    const math = code ? undefined : matchInlineMath(src);
+
+    let length: number;
+    if (code) {
+      length = code[0].length;
+      result += content.slice(position, at + length);
+    } else if (math) {
+      length = math.raw.length;
+      result += content.slice(position, at) + replace(math.text, math.displayMode);
+    } else {
+      // A backslash escapes the next character ("\$" is a dollar sign)
+      length = src[0] === '\\' ? 2 : 1;
+      result += content.slice(position, at + length);
+    }
+    position = at + length;
+    special.lastIndex = position;
+  }
+
+  return result + content.slice(position);
+}
+
 /**
  * Check if content contains math expressions
  */
@@ -141,7 +377,12 @@ export function hasMath(content: string): boolean {
   if (!content || typeof content !== 'string') {
     return false;
   }
-  return /(\$[\s\S]*?\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\])/.test(content);
+  let found = false;
+  replaceMath(content, () => {
+    found = true;
+    return '';
+  });
+  return found;
 }
 
 /**
@@ -152,12 +393,13 @@ export function extractPlainText(content: string): string {
     return '';
   }
 
-  // Remove math expressions
-  let text = content
-    .replace(/\$\$[\s\S]*?\$\$/g, '[formula]')
-    .replace(/\$[^$\n]+?\$/g, '[formula]')
-    .replace(/\\\[[\s\S]*?\\\]/g, '[formula]')
-    .replace(/\\\([\s\S]*?\\\)/g, '[formula]');
+  // Remove data blocks and math expressions
+  let text = replaceMath(
+    content
+      .replace(/```chart[^\n]*\n[\s\S]*?```/g, '[chart]')
+      .replace(/```data-table[^\n]*\n[\s\S]*?```/g, '[table]'),
+    () => '[formula]'
+  );
 
   // Remove markdown formatting
   text = text
@@ -167,6 +409,7 @@ export function extractPlainText(content: string): string {
     .replace(/`([^`]+)`/g, '$1')        // Inline code
     .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Links
     .replace(/!\[([^\]]*)\]\([^)]+\)/g, '') // Images
+    .replace(/\\\$/g, '$$')                 // Escaped dollar signs
     .replace(/^\s*[-*+]\s/gm, '')       // List items
     .replace(/^\s*\d+\.\s/gm, '')       // Numbered lists
     .replace(/\n{2,}/g, ' ')            // Multiple newlines
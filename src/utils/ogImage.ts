@@ -0,0 +1,330 @@
+// Open Graph Images
+// Renders a 1200x630 PNG card per question, exam-topic and learn-topic page
+// (served from /og/..., see pages/og/[...path].png.ts). Cards are cached in
+// .cache/og/ by a hash of their content, so unchanged cards are never
+// re-rendered, and the hash is added to the image URL so social networks
+// pick up changed cards.
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import sharp from 'sharp';
+import type { Question } from '../types';
+import { extractPlainText, replaceMath } from './markdownRenderer';
+import { writeBuildReport } from './buildReport';
+
+/**
+ * Bump whenever the card layout changes so every cached card is re-rendered
+ */
+export const OG_TEMPLATE_VERSION = 1;
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+export interface OgCard {
+    /** Small label above the title ("Practice Question", "Learn"...) */
+    label: string;
+    title: string;
+    /** Exam or course shown as a badge */
+    badge?: string;
+    difficulty?: string;
+    topic?: string;
+}
+
+const getCacheDir = (): string => {
+    const dir = (typeof process !== 'undefined' && process.env?.CACHE_DIR) || '.cache';
+    return path.resolve(process.cwd(), dir, 'og');
+};
+
+// ============================================================================
+// Math → Unicode
+// ============================================================================
+// Deliberately limited: sharp renders SVG text only, which can't host KaTeX's
+// HTML/MathML, so formulas are linearized into Unicode. That is only faithful
+// for simple math (x², 3/4, √2, π); matrices, environments, nested or compound
+// fractions and roots, and scripts without a Unicode form would come out as
+// pseudo-text that differs from the page, so cards leave such text out.
+
+const SUPERSCRIPTS: Record<string, string> = {
+    '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+    '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', 'n': 'ⁿ', 'i': 'ⁱ', 'x': 'ˣ', 'y': 'ʸ'
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+    '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+    '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎', 'n': 'ₙ', 'i': 'ᵢ', 'x': 'ₓ'
+};
+
+const TEX_SYMBOLS: Record<string, string> = {
+    'times': '×', 'div': '÷', 'cdot': '·', 'pm': '±', 'mp': '∓',
+    'le': '≤', 'leq': '≤', 'ge': '≥', 'geq': '≥', 'neq': '≠', 'ne': '≠', 'approx': '≈',
+    'infty': '∞', 'circ': '°', 'degree': '°', 'angle': '∠', 'triangle': '△', 'therefore': '∴',
+    'rightarrow': '→', 'Rightarrow': '⇒', 'leftarrow': '←', 'sum': 'Σ', 'prod': 'Π',
+    'alpha': 'α', 'beta': 'β', 'gamma': 'γ', 'delta': 'δ', 'Delta': 'Δ', 'theta': 'θ',
+    'lambda': 'λ', 'mu': 'μ', 'pi': 'π', 'sigma': 'σ', 'phi': 'φ', 'omega': 'ω',
+    '%': '%', '$': '$', ',': ' ', ';': ' ', 'quad': ' ', 'qquad': ' '
+};
+
+/** Commands shown by name (\sin x → sin x) */
+const TEX_FUNCTIONS = new Set(['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'log', 'ln', 'exp', 'min', 'max', 'gcd', 'lcm', 'mod']);
+
+/** A fraction or root argument that reads unambiguously without brackets */
+const SIMPLE_ARGUMENT = /^[\p{L}\p{N}.]+$/u;
+
+/**
+ * Script (^/_) content mapped to Unicode, or null if a character has no
+ * Unicode script form
+ */
+function toScript(text: string, map: Record<string, string>): string | null {
+    const chars = [...text];
+    return chars.every(c => map[c]) ? chars.map(c => map[c]).join('') : null;
+}
+
+/**
+ * Linearize a TeX expression into Unicode text
+ * (\frac{a}{b} → a/b, x^{2} → x², \sqrt{x} → √x, \pi → π).
+ * `exact` is false when the text misrepresents the formula (see above).
+ */
+export function linearizeTex(tex: string): { text: string; exact: boolean } {
+    let exact = !/\\begin|\\\\|&|\\sqrt\[/.test(tex);
+    const simple = (arg: string) => {
+        if (SIMPLE_ARGUMENT.test(arg)) return arg;
+        exact = false;
+        return `(${arg})`;
+    };
+    const script = (arg: string, map: Record<string, string>, mark: string) => {
+        const converted = toScript(arg, map);
+        if (converted === null) exact = false;
+        return converted ?? `${mark}(${arg})`;
+    };
+
+    let text = tex
+        .replace(/\\(?:left|right|displaystyle|textstyle|,|!)/g, '')
+        .replace(/\\(?:text|mathrm|mathbf|textbf|operatorname)\{([^{}]*)\}/g, '$1');
+
+    // Innermost-first so nested fractions/roots resolve
+    let previous = '';
+    while (previous !== text) {
+        previous = text;
+        text = text
+            .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, (_, a, b) => `${simple(a)}/${simple(b)}`)
+            .replace(/\\sqrt\{([^{}]*)\}/g, (_, a) => `√${simple(a)}`)
+            .replace(/\^\{([^{}]*)\}/g, (_, a) => script(a, SUPERSCRIPTS, '^'))
+            .replace(/_\{([^{}]*)\}/g, (_, a) => script(a, SUBSCRIPTS, '_'));
+    }
+
+    text = text
+        .replace(/\^\\circ/g, '°')
+        .replace(/\^([0-9a-z+-])/g, (_, a) => script(a, SUPERSCRIPTS, '^'))
+        .replace(/_([0-9a-z])/g, (_, a) => script(a, SUBSCRIPTS, '_'))
+        .replace(/\\([a-zA-Z]+|[%$,;])/g, (_, name) => {
+            if (TEX_SYMBOLS[name] !== undefined) return TEX_SYMBOLS[name];
+            if (!TEX_FUNCTIONS.has(name)) exact = false;
+            return name;
+        })
+        .replace(/[{}]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return { text, exact };
+}
+
+/**
+ * Linearize a TeX expression into readable Unicode text (see linearizeTex)
+ */
+export function texToUnicode(tex: string): string {
+    return linearizeTex(tex).text;
+}
+
+/**
+ * Plain card text from markdown with math, or null when a formula can't be
+ * shown faithfully as Unicode text
+ */
+export function toCardText(content: string): string | null {
+    let exact = true;
+    const withMath = replaceMath(content, tex => {
+        const result = linearizeTex(tex);
+        exact &&= result.exact;
+        return result.text;
+    });
+    return exact ? extractPlainText(withMath) : null;
+}
+
+// ============================================================================
+// Cards
+// ============================================================================
+
+export function getQuestionOgCard(question: Question): OgCard {
+    return {
+        label: 'Practice Question',
+        title: question.statementType === 'text'
+            ? toCardText(question.statement) ?? `${question.topic || 'Aptitude'} Question`
+            : `${question.topic || 'Aptitude'} visual question`,
+        badge: [question.exam, question.subExam].filter(Boolean).join(' ') || undefined,
+        difficulty: question.difficulty,
+        topic: question.topic || question.category
+    };
+}
+
+export function getExamTopicOgCard(examName: string, topicName: string, totalQuestions: number): OgCard {
+    return {
+        label: `${totalQuestions} Practice Questions`,
+        title: `${topicName} Questions for ${examName}`,
+        badge: examName,
+        topic: topicName
+    };
+}
+
+export function getLearnTopicOgCard(courseTitle: string, topicTitle: string, description?: string): OgCard {
+    return {
+        label: 'Learn',
+        title: topicTitle,
+        badge: courseTitle,
+        topic: (description && toCardText(description)) || undefined
+    };
+}
+
+/**
+ * List the pages whose card left its text out over a formula (see toCardText)
+ * in reports/og-math-fallbacks.json, so the formula can be simplified
+ */
+export function reportOgMathFallbacks(pages: string[]): void {
+    if (pages.length > 0) {
+        console.warn(`⚠ ${pages.length} Open Graph cards leave out formulas Unicode can't show (see reports/og-math-fallbacks.json)`);
+    }
+    writeBuildReport('og-math-fallbacks', { count: pages.length, pages });
+}
+
+/**
+ * Content hash of a card (includes the template version)
+ */
+export function getOgCardHash(card: OgCard): string {
+    return createHash('sha256')
+        .update(JSON.stringify({ version: OG_TEMPLATE_VERSION, card }))
+        .digest('hex')
+        .substring(0, 16);
+}
+
+/**
+ * Public URL of a card image; `route` is relative to /og/ without extension
+ */
+export function getOgImageUrl(route: string, card: OgCard): string {
+    return `/og/${route}.png?v=${getOgCardHash(card).substring(0, 8)}`;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const FONT = "'DejaVu Sans', 'Helvetica Neue', Arial, sans-serif";
+
+const DIFFICULTY_COLORS: Record<string, string> = {
+    easy: '#16a34a',
+    medium: '#d97706',
+    hard: '#dc2626'
+};
+
+const escapeSvgText = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Word-wrap text to lines of at most `maxChars`, ellipsizing past `maxLines`
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (candidate.length <= maxChars) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        line = word.length > maxChars ? `${word.substring(0, maxChars - 1)}…` : word;
+        if (lines.length === maxLines) break;
+    }
+    if (line && lines.length < maxLines) lines.push(line);
+
+    if (lines.length === maxLines && lines.join(' ').length < text.length) {
+        const last = lines[maxLines - 1];
+        lines[maxLines - 1] = `${last.substring(0, maxChars - 1).replace(/\s+\S*$/, '')}…`;
+    }
+    return lines;
+}
+
+/**
+ * Rough text width for DejaVu Sans (average glyph ≈ 0.58em)
+ */
+const textWidth = (text: string, fontSize: number): number => text.length * fontSize * 0.58;
+
+function renderPill(x: number, y: number, text: string, fill: string, color: string): { svg: string; width: number } {
+    const fontSize = 26;
+    // Bold glyphs run wider than the average
+    const width = Math.round(textWidth(text, fontSize) * 1.1 + 40);
+    return {
+        width,
+        svg: `<rect x="${x}" y="${y}" width="${width}" height="48" rx="24" fill="${fill}"/>` +
+            `<text x="${x + width / 2}" y="${y + 33}" font-size="${fontSize}" font-weight="bold" fill="${color}" text-anchor="middle">${escapeSvgText(text)}</text>`
+    };
+}
+
+/**
+ * SVG markup of a card
+ */
+export function renderOgSvg(card: OgCard): string {
+    const padding = 80;
+    const contentWidth = OG_WIDTH - padding * 2;
+
+    // Shrink long titles so they still fit in the title area
+    const fontSize = card.title.length > 120 ? 44 : card.title.length > 70 ? 52 : 60;
+    const maxChars = Math.floor(contentWidth / (fontSize * 0.58));
+    const titleLines = wrapText(card.title, maxChars, fontSize === 44 ? 5 : 4);
+    const lineHeight = Math.round(fontSize * 1.25);
+
+    const title = titleLines.map((line, i) =>
+        `<text x="${padding}" y="${220 + i * lineHeight}" font-size="${fontSize}" font-weight="bold" fill="#ffffff">${escapeSvgText(line)}</text>`
+    ).join('');
+
+    let pillX = padding;
+    const pills: string[] = [];
+    if (card.badge) {
+        const pill = renderPill(pillX, 520, card.badge, '#ffffff', '#4f46e5');
+        pills.push(pill.svg);
+        pillX += pill.width + 16;
+    }
+    if (card.difficulty) {
+        const color = DIFFICULTY_COLORS[card.difficulty.toLowerCase()] || '#64748b';
+        const pill = renderPill(pillX, 520, card.difficulty, color, '#ffffff');
+        pills.push(pill.svg);
+        pillX += pill.width + 16;
+    }
+    if (card.topic) {
+        const maxTopicChars = Math.floor((OG_WIDTH - padding - pillX) / (26 * 0.58));
+        const [topic] = wrapText(card.topic, maxTopicChars, 1);
+        pills.push(`<text x="${pillX + 8}" y="553" font-size="26" fill="#e0e7ff">${escapeSvgText(topic || '')}</text>`);
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_WIDTH}" height="${OG_HEIGHT}" viewBox="0 0 ${OG_WIDTH} ${OG_HEIGHT}" font-family="${FONT}">
+<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#4f46e5"/><stop offset="1" stop-color="#0ea5e9"/></linearGradient></defs>
+<rect width="${OG_WIDTH}" height="${OG_HEIGHT}" fill="url(#bg)"/>
+<text x="${padding}" y="110" font-size="36" font-weight="bold" fill="#ffffff">AptiDude</text>
+<text x="${OG_WIDTH - padding}" y="110" font-size="26" fill="#e0e7ff" text-anchor="end">${escapeSvgText(card.label)}</text>
+${title}
+${pills.join('')}
+</svg>`;
+}
+
+/**
+ * PNG for a card, served from the content-hash cache when possible
+ */
+export async function renderOgImage(card: OgCard): Promise<{ png: Buffer; cached: boolean }> {
+    const file = path.join(getCacheDir(), `${getOgCardHash(card)}.png`);
+    if (fs.existsSync(file)) {
+        return { png: fs.readFileSync(file), cached: true };
+    }
+
+    const png = await sharp(Buffer.from(renderOgSvg(card))).png().toBuffer();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, png);
+    return { png, cached: false };
+}
@@ -0,0 +1,110 @@
+// Previous Year Papers
+// Groups questions with paper provenance into /pyq/:exam/:year pages: one
+// page per exam and year, listing each paper (sub-exam, slot/shift) of that
+// year with its questions in paper order.
+import type { Question, QuestionPaper } from '../types';
+import { createSlug } from './seoGenerator';
+
+export interface PyqPaper {
+    name: string;
+    /** Fragment id of the paper on its year page */
+    anchor: string;
+    subExam?: string;
+    shift?: string;
+    date?: string;
+    /** In paper order */
+    questions: Question[];
+}
+
+export interface PyqYearPage {
+    exam: string;
+    examSlug: string;
+    year: number;
+    path: string;
+    papers: PyqPaper[];
+    totalQuestions: number;
+    /** Latest updatedAt of its questions */
+    lastmod?: string;
+}
+
+export function getPyqYearPath(examSlug: string, year: number): string {
+    return `/pyq/${examSlug}/${year}`;
+}
+
+/**
+ * Display name of a question's paper: the API's name, or one built from the
+ * exam, sub-exam, year and shift ("SSC CGL Tier 1 2023 Shift 2")
+ */
+export function getPaperName(question: Question & { paper: QuestionPaper }): string {
+    const { paper } = question;
+    return paper.name || [question.exam, question.subExam, paper.year, paper.shift].filter(Boolean).join(' ');
+}
+
+/**
+ * Link from a question page to its paper, when it has one
+ */
+export function getQuestionPaperLink(question: Question): { name: string; path: string; position?: number } | undefined {
+    if (!question.paper || !question.exam) return undefined;
+    const name = getPaperName(question as Question & { paper: QuestionPaper });
+    return {
+        name,
+        path: `${getPyqYearPath(createSlug(question.exam), question.paper.year)}#${createSlug(name)}`,
+        position: question.paper.position
+    };
+}
+
+const byPaperOrder = (a: Question, b: Question) =>
+    (a.paper?.position ?? Infinity) - (b.paper?.position ?? Infinity) || a.questionNumber - b.questionNumber;
+
+/**
+ * Every exam+year page, newest year first within an exam
+ */
+export function buildPyqYearPages(questions: Question[]): PyqYearPage[] {
+    const years = new Map<string, Map<string, PyqPaper>>();
+
+    for (const question of questions) {
+        if (!question.paper || !question.exam) continue;
+        const yearKey = `${question.exam}::${question.paper.year}`;
+        const name = getPaperName(question as Question & { paper: QuestionPaper });
+
+        if (!years.has(yearKey)) years.set(yearKey, new Map());
+        const papers = years.get(yearKey)!;
+        if (!papers.has(name)) {
+            papers.set(name, {
+                name,
+                anchor: createSlug(name),
+                subExam: question.subExam,
+                shift: question.paper.shift,
+                date: question.paper.date,
+                questions: []
+            });
+        }
+        papers.get(name)!.questions.push(question);
+    }
+
+    const pages: PyqYearPage[] = [];
+    for (const [key, papers] of years) {
+        const [exam, year] = key.split('::');
+        const examSlug = createSlug(exam);
+        const sortedPapers = Array.from(papers.values())
+            .map(paper => ({ ...paper, questions: paper.questions.sort(byPaperOrder) }))
+            .sort((a, b) =>
+                (a.subExam || '').localeCompare(b.subExam || '') ||
+                (a.date || '').localeCompare(b.date || '') ||
+                a.name.localeCompare(b.name, undefined, { numeric: true }));
+        const all = sortedPapers.flatMap(paper => paper.questions);
+
+        pages.push({
+            exam,
+            examSlug,
+            year: Number(year),
+            path: getPyqYearPath(examSlug, Number(year)),
+            papers: sortedPapers,
+            totalQuestions: all.length,
+            lastmod: all.reduce<string | undefined>((latest, q) =>
+                !latest || new Date(q.updatedAt).getTime() > new Date(latest).getTime() ? q.updatedAt : latest, undefined)
+        });
+    }
+
+    return pages.sort((a, b) => a.exam.localeCompare(b.exam) || b.year - a.year);
+}
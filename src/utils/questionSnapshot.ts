@@ -0,0 +1,122 @@
+// Question Snapshot Cache
+// Persists the full question set to disk between builds so that a build only
+// has to pull questions that changed since the previous one. That relies on
+// the API honouring `updatedSince`; one that ignores it returns everything,
+// which merges correctly but re-downloads the whole set every build.
+//
+// Incremental refreshes never see deleted or unpublished questions, so the
+// snapshot also records when the set was last fetched in full and gets a full
+// refresh once that is too old.
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RawQuestion } from '../types';
+
+/**
+ * Bump whenever the snapshot layout or the shape of cached questions changes.
+ * Snapshots written with a different version are ignored and rebuilt.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+export interface QuestionSnapshot {
+    version: number;
+    apiBase: string;
+    /** Last refresh of any kind */
+    fetchedAt: string;
+    /** Last full fetch; incremental refreshes keep it */
+    fullFetchedAt: string;
+    latestUpdatedAt: string | null;
+    questions: RawQuestion[];
+}
+
+const getCacheDir = (): string => {
+    const dir = (typeof process !== 'undefined' && process.env?.CACHE_DIR) || '.cache';
+    return path.resolve(process.cwd(), dir);
+};
+
+export const getSnapshotPath = (): string => path.join(getCacheDir(), 'questions.json');
+
+/**
+ * Read the snapshot from disk.
+ * Returns null when it is missing, unreadable, from another snapshot version
+ * or was taken from a different API.
+ */
+export function readSnapshot(apiBase: string): QuestionSnapshot | null {
+    const file = getSnapshotPath();
+    if (!fs.existsSync(file)) return null;
+
+    try {
+        const snapshot = JSON.parse(fs.readFileSync(file, 'utf-8')) as QuestionSnapshot;
+
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+            console.log(`  ⚠ Ignoring snapshot v${snapshot.version} (expected v${SNAPSHOT_VERSION})`);
+            return null;
+        }
+        if (snapshot.apiBase !== apiBase) {
+            console.log(`  ⚠ Ignoring snapshot taken from ${snapshot.apiBase}`);
+            return null;
+        }
+        if (!Array.isArray(snapshot.questions)) return null;
+
+        return snapshot;
+    } catch (error) {
+        console.warn(`  ⚠ Could not read snapshot ${file}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Write the snapshot atomically (temp file + rename) so an interrupted build
+ * never leaves a half-written cache behind. Pass the previous snapshot's
+ * `fullFetchedAt` after an incremental refresh; it defaults to now (a full fetch).
+ */
+export function writeSnapshot(apiBase: string, questions: RawQuestion[], fullFetchedAt?: string): QuestionSnapshot {
+    const fetchedAt = new Date().toISOString();
+    const snapshot: QuestionSnapshot = {
+        version: SNAPSHOT_VERSION,
+        apiBase,
+        fetchedAt,
+        fullFetchedAt: fullFetchedAt ?? fetchedAt,
+        latestUpdatedAt: getLatestUpdatedAt(questions),
+        questions
+    };
+
+    const file = getSnapshotPath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(snapshot));
+    fs.renameSync(tmpFile, file);
+
+    return snapshot;
+}
+
+/**
+ * Most recent updatedAt across all questions (ISO string), used as the
+ * watermark for the next incremental refresh
+ */
+export function getLatestUpdatedAt(questions: RawQuestion[]): string | null {
+    let latest = 0;
+    for (const q of questions) {
+        const time = new Date(q.updatedAt).getTime();
+        if (!Number.isNaN(time) && time > latest) latest = time;
+    }
+    return latest > 0 ? new Date(latest).toISOString() : null;
+}
+
+/**
+ * Merge changed questions into the snapshot set, replacing by questionNumber.
+ * Order of existing questions is preserved; new questions are appended.
+ */
+export function mergeQuestions(existing: RawQuestion[], changed: RawQuestion[]): RawQuestion[] {
+    const byNumber = new Map(existing.map(q => [q.questionNumber, q]));
+    for (const q of changed) {
+        byNumber.set(q.questionNumber, q);
+    }
+    return Array.from(byNumber.values());
+}
+
+/**
+ * Hours since the snapshot's question set was last fetched in full
+ */
+export function getSnapshotAgeHours(snapshot: QuestionSnapshot): number {
+    return (Date.now() - new Date(snapshot.fullFetchedAt).getTime()) / (1000 * 60 * 60);
+}
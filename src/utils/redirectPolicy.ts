@@ -0,0 +1,56 @@
+// App Redirect Policy
+// Whether question and lesson pages send visitors on to the app, loaded from
+// src/data/redirect-policy.json and validated when the build starts.
+//
+// Each environment sets a policy per route; routes it leaves out (and
+// environments the file doesn't list) use `defaults`. The environment is
+// REDIRECT_ENV, else development for `astro dev` and production for builds.
+import { z } from 'astro/zod';
+import type { RedirectPolicy, RedirectPolicyConfig, RedirectRoute } from '../types';
+import { readEnv } from './env';
+import redirectPolicyData from '../data/redirect-policy.json';
+
+const policySchema = z.discriminatedUnion('mode', [
+    z.object({ mode: z.literal('immediate') }).strict(),
+    z.object({ mode: z.literal('delayed'), delayMs: z.number().int().positive() }).strict(),
+    z.object({ mode: z.literal('cta') }).strict()
+]);
+
+const routesSchema = z.object({
+    question: policySchema,
+    lesson: policySchema
+}).strict();
+
+export const redirectPolicyConfigSchema = z.object({
+    defaults: routesSchema,
+    environments: z.record(routesSchema.partial())
+}).strict();
+
+/**
+ * Validate the config; throws with every problem listed so a bad edit to the
+ * data file fails the build instead of shipping the wrong redirect
+ */
+export function parseRedirectPolicyConfig(data: unknown): RedirectPolicyConfig {
+    const parsed = redirectPolicyConfigSchema.safeParse(data);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid src/data/redirect-policy.json:\n${issues.join('\n')}`);
+    }
+    return parsed.data;
+}
+
+const config = parseRedirectPolicyConfig(redirectPolicyData);
+
+/**
+ * Environment whose policies apply to this build
+ */
+export function getRedirectEnv(): string {
+    return readEnv('REDIRECT_ENV') || (import.meta.env.DEV ? 'development' : 'production');
+}
+
+/**
+ * Redirect policy of a route in an environment
+ */
+export function getRedirectPolicy(route: RedirectRoute, env: string = getRedirectEnv()): RedirectPolicy {
+    return config.environments[env]?.[route] ?? config.defaults[route];
+}
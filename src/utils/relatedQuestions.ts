@@ -0,0 +1,342 @@
+// Related Questions
+// Picks the "Similar Questions" of every question page: TF-IDF similarity of
+// statement/explanation text, boosted by shared tags, sub-exam and nearby
+// difficulty, then spread out so link equity reaches every question.
+import type { Question } from '../types';
+import { writeBuildReport } from './buildReport';
+
+/**
+ * Score weights; text similarity is a cosine in [0, 1], the others are 0/1
+ * matches or proportions
+ */
+const WEIGHTS = {
+    text: 1,
+    tags: 0.3,
+    topic: 0.25,
+    subExam: 0.15,
+    difficulty: 0.1
+};
+
+/** Strongest terms kept per question vector (keeps scoring fast) */
+const MAX_TERMS = 25;
+/** Best-scoring candidates considered per question */
+const CANDIDATE_POOL = 30;
+/** Text-similarity shortlist size (× CANDIDATE_POOL) before full scoring */
+const SHORTLIST_FACTOR = 4;
+/** Penalty for resembling a question already picked for the same page */
+const DIVERSITY_PENALTY = 0.3;
+/** Penalty per inbound link a candidate already has, relative to the page limit */
+const POPULARITY_PENALTY = 0.15;
+/** Explanation text counts less than the statement */
+const EXPLANATION_WEIGHT = 0.5;
+
+const DIFFICULTY_RANK: Record<string, number> = { Easy: 0, Medium: 1, Hard: 2 };
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from',
+    'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those',
+    'as', 'if', 'then', 'than', 'so', 'what', 'which', 'who', 'whom', 'how', 'when', 'where',
+    'find', 'given', 'following', 'his', 'her', 'their', 'he', 'she', 'they', 'we', 'you',
+    'will', 'would', 'can', 'could', 'must', 'should', 'has', 'have', 'had', 'do', 'does',
+    'not', 'no', 'each', 'per', 'into', 'all', 'any', 'one', 'two', 'some', 'there',
+    'let', 'required', 'hence', 'therefore', 'answer', 'option', 'options', 'question',
+    'frac', 'times', 'text', 'left', 'right', 'cdot', 'div', 'mathrm'
+]);
+
+type Vector = Map<number, number>;
+
+interface Doc {
+    question: Question;
+    vector: Vector;
+    tags: Set<string>;
+}
+
+interface Candidate {
+    index: number;
+    score: number;
+}
+
+/**
+ * Lowercase word tokens of markdown/LaTeX text, without stopwords or numbers
+ */
+function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z][a-z0-9]+/g) || [])
+        .filter(token => !STOPWORDS.has(token))
+        // Crude plural folding: "pipes" → "pipe", "ratios" → "ratio"
+        .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+/**
+ * Weighted term frequencies of a question's text
+ */
+function termFrequencies(question: Question): Map<string, number> {
+    const tf = new Map<string, number>();
+    const add = (text: string | undefined, weight: number) => {
+        for (const token of tokenize(text || '')) {
+            tf.set(token, (tf.get(token) || 0) + weight);
+        }
+    };
+    if (question.statementType === 'text') add(question.statement, 1);
+    add(question.explanation, EXPLANATION_WEIGHT);
+    (question.options || []).filter(opt => opt.type === 'text').forEach(opt => add(opt.content, EXPLANATION_WEIGHT));
+    return tf;
+}
+
+/**
+ * L2-normalized TF-IDF vectors (term ids → weight), pruned to MAX_TERMS
+ */
+function buildVectors(questions: Question[]): Vector[] {
+    const termIds = new Map<string, number>();
+    const frequencies = questions.map(termFrequencies);
+
+    const documentFrequency = new Map<number, number>();
+    const idFrequencies = frequencies.map(tf => {
+        const ids = new Map<number, number>();
+        for (const [term, count] of tf) {
+            if (!termIds.has(term)) termIds.set(term, termIds.size);
+            const id = termIds.get(term)!;
+            ids.set(id, count);
+            documentFrequency.set(id, (documentFrequency.get(id) || 0) + 1);
+        }
+        return ids;
+    });
+
+    return idFrequencies.map(tf => {
+        const weighted = Array.from(tf, ([id, count]): [number, number] => [
+            id,
+            (1 + Math.log(count)) * Math.log(1 + questions.length / documentFrequency.get(id)!)
+        ])
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_TERMS);
+
+        const norm = Math.sqrt(weighted.reduce((sum, [, w]) => sum + w * w, 0)) || 1;
+        return new Map(weighted.map(([id, w]) => [id, w / norm]));
+    });
+}
+
+function cosine(a: Vector, b: Vector): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    for (const [id, w] of small) {
+        const other = large.get(id);
+        if (other !== undefined) sum += w * other;
+    }
+    return sum;
+}
+
+/**
+ * A group of questions (same topic, category or exam) with an inverted index
+ * so text similarity is only computed against questions sharing a term
+ */
+class Bucket {
+    readonly members: number[] = [];
+    private postings: Map<number, Array<[number, number]>> | null = null;
+
+    add(index: number) {
+        this.members.push(index);
+    }
+
+    /** Dot products of `vector` with every member sharing at least one term */
+    similarities(vector: Vector, docs: Doc[]): Map<number, number> {
+        if (!this.postings) {
+            this.postings = new Map();
+            for (const member of this.members) {
+                for (const [id, w] of docs[member].vector) {
+                    if (!this.postings.has(id)) this.postings.set(id, []);
+                    this.postings.get(id)!.push([member, w]);
+                }
+            }
+        }
+
+        const scores = new Map<number, number>();
+        for (const [id, w] of vector) {
+            for (const [member, other] of this.postings.get(id) || []) {
+                scores.set(member, (scores.get(member) || 0) + w * other);
+            }
+        }
+        return scores;
+    }
+}
+
+function score(a: Doc, b: Doc, textSimilarity: number): number {
+    const qa = a.question;
+    const qb = b.question;
+
+    let sharedTags = 0;
+    for (const tag of a.tags) if (b.tags.has(tag)) sharedTags++;
+    const tagUnion = a.tags.size + b.tags.size - sharedTags;
+
+    const rankA = qa.difficulty ? DIFFICULTY_RANK[qa.difficulty] : undefined;
+    const rankB = qb.difficulty ? DIFFICULTY_RANK[qb.difficulty] : undefined;
+    const difficulty = rankA !== undefined && rankB !== undefined ? 1 - Math.abs(rankA - rankB) / 2 : 0.5;
+
+    return WEIGHTS.text * textSimilarity
+        + WEIGHTS.tags * (tagUnion > 0 ? sharedTags / tagUnion : 0)
+        + WEIGHTS.topic * (qa.topic && qa.topic === qb.topic ? 1 : 0)
+        + WEIGHTS.subExam * (qa.subExam && qa.subExam === qb.subExam ? 1 : 0)
+        + WEIGHTS.difficulty * difficulty;
+}
+
+/**
+ * Best CANDIDATE_POOL candidates for a question: its topic first, widening to
+ * category and exam when the topic is too small
+ */
+function findCandidates(index: number, docs: Doc[], buckets: Map<string, Bucket>): Candidate[] {
+    const doc = docs[index];
+    const q = doc.question;
+    const keys = [
+        q.topic && `topic::${q.topic}`,
+        q.category && `category::${q.category}`,
+        q.exam && `exam::${q.exam}`
+    ].filter((key): key is string => Boolean(key));
+
+    const scores = new Map<number, number>();
+    for (const key of keys) {
+        const bucket = buckets.get(key)!;
+
+        // Only the textually closest members get a full score, so large topics
+        // don't cost a comparison with every other question
+        const shortlist = Array.from(bucket.similarities(doc.vector, docs))
+            .filter(([member]) => member !== index && !scores.has(member))
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, CANDIDATE_POOL * SHORTLIST_FACTOR);
+        for (const [member, similarity] of shortlist) {
+            scores.set(member, score(doc, docs[member], similarity));
+        }
+
+        // Small groups: members without shared terms still beat an empty section
+        for (const member of bucket.members) {
+            if (scores.size >= CANDIDATE_POOL) break;
+            if (member !== index && !scores.has(member)) {
+                scores.set(member, score(doc, docs[member], 0));
+            }
+        }
+        if (scores.size >= CANDIDATE_POOL) break;
+    }
+
+    return Array.from(scores, ([candidate, value]) => ({ index: candidate, score: value }))
+        .sort((a, b) => b.score - a.score || docs[a.index].question.questionNumber - docs[b.index].question.questionNumber)
+        .slice(0, CANDIDATE_POOL);
+}
+
+/**
+ * Greedy pick: best score, minus resemblance to questions already on the page
+ * and minus links the candidate already receives
+ */
+function pickRelated(pool: Candidate[], docs: Doc[], inbound: number[], limit: number): Candidate[] {
+    const picked: Candidate[] = [];
+    const remaining = pool.map(candidate => ({ candidate, redundancy: 0 }));
+
+    while (picked.length < limit && remaining.length > 0) {
+        let best = 0;
+        let bestValue = -Infinity;
+        remaining.forEach(({ candidate, redundancy }, i) => {
+            const value = candidate.score
+                - DIVERSITY_PENALTY * redundancy
+                - POPULARITY_PENALTY * inbound[candidate.index] / limit;
+            if (value > bestValue) {
+                bestValue = value;
+                best = i;
+            }
+        });
+        const [{ candidate: choice }] = remaining.splice(best, 1);
+        picked.push(choice);
+        inbound[choice.index]++;
+
+        // Redundancy = similarity to the closest question already picked
+        const chosenVector = docs[choice.index].vector;
+        for (const entry of remaining) {
+            entry.redundancy = Math.max(entry.redundancy, cosine(chosenVector, docs[entry.candidate.index].vector));
+        }
+    }
+
+    return picked;
+}
+
+/**
+ * Give questions nobody links to a slot on their most similar page, taking
+ * the weakest link whose target has other inbound links
+ */
+function linkOrphans(pools: Candidate[][], related: Candidate[][], inbound: number[]) {
+    for (let orphan = 0; orphan < pools.length; orphan++) {
+        if (inbound[orphan] > 0) continue;
+
+        for (const { index: page, score: orphanScore } of pools[orphan]) {
+            const links = related[page];
+            if (links.some(link => link.index === orphan)) continue;
+
+            const replaceable = links
+                .map((link, slot) => ({ link, slot }))
+                .filter(({ link }) => inbound[link.index] > 1)
+                .sort((a, b) => a.link.score - b.link.score)[0];
+            if (!replaceable) continue;
+
+            inbound[replaceable.link.index]--;
+            inbound[orphan]++;
+            links[replaceable.slot] = { index: orphan, score: orphanScore };
+            links.sort((a, b) => b.score - a.score);
+            break;
+        }
+    }
+}
+
+/**
+ * Related questions for every question (keyed by questionNumber), plus
+ * reports/related-questions.json with inbound link counts per question
+ */
+export function buildRelatedQuestions(questions: Question[], limit = 6): Map<number, Question[]> {
+    const startTime = Date.now();
+    const sorted = [...questions].sort((a, b) => a.questionNumber - b.questionNumber);
+
+    const vectors = buildVectors(sorted);
+    const docs: Doc[] = sorted.map((question, i) => ({
+        question,
+        vector: vectors[i],
+        tags: new Set((question.tags || []).map(tag => tag.toLowerCase()))
+    }));
+
+    const buckets = new Map<string, Bucket>();
+    docs.forEach(({ question: q }, i) => {
+        for (const key of [q.topic && `topic::${q.topic}`, q.category && `category::${q.category}`, q.exam && `exam::${q.exam}`]) {
+            if (!key) continue;
+            if (!buckets.has(key)) buckets.set(key, new Bucket());
+            buckets.get(key)!.add(i);
+        }
+    });
+
+    const inbound = new Array<number>(docs.length).fill(0);
+    const pools = docs.map((_, i) => findCandidates(i, docs, buckets));
+    const related = pools.map(pool => pickRelated(pool, docs, inbound, limit));
+    linkOrphans(pools, related, inbound);
+
+    const result = new Map<number, Question[]>();
+    related.forEach((links, i) => {
+        result.set(docs[i].question.questionNumber, links.map(link => docs[link.index].question));
+    });
+
+    const orphans = docs.filter((_, i) => inbound[i] === 0).map(doc => doc.question.questionNumber);
+    const counts = [...inbound].sort((a, b) => a - b);
+    const histogram: Record<number, number> = {};
+    for (const count of counts) histogram[count] = (histogram[count] || 0) + 1;
+
+    writeBuildReport('related-questions', {
+        questions: docs.length,
+        linksPerPage: limit,
+        orphans,
+        inbound: {
+            min: counts[0] ?? 0,
+            median: counts[Math.floor(counts.length / 2)] ?? 0,
+            max: counts[counts.length - 1] ?? 0,
+            histogram
+        },
+        byQuestion: Object.fromEntries(docs.map((doc, i) => [doc.question.questionNumber, {
+            inbound: inbound[i],
+            related: related[i].map(link => docs[link.index].question.questionNumber)
+        }]))
+    });
+
+    const seconds = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(`🔗 Related questions: ${docs.length} pages in ${seconds}s, ${orphans.length} without inbound links`);
+
+    return result;
+}
@@ -0,0 +1,261 @@
+// Search Index
+// Build-time index behind the static /search page: one document per question
+// and published lesson, BM25 term scores sharded by term prefix, and facet ids
+// for the exam/topic/difficulty filters. Served as JSON under /search-index/.
+import type {
+    Question,
+    LearningCourse,
+    LearningTopic,
+    SearchDocument,
+    SearchManifest,
+    SearchFacetIndex,
+    SearchTermShard
+} from '../types';
+import { fetchAllQuestions, fetchAllCourses } from './dataFetcher';
+import { generateAllQuestionSEO } from './seoGenerator';
+import { extractPlainText } from './markdownRenderer';
+import { mapQuestionsToLessons } from './topicTaxonomy';
+import { tokenizeSearchText, getTermShard, queryFindsTerm } from './searchTokens';
+
+/** Bump when the file format changes so cached clients don't misread it */
+export const SEARCH_INDEX_VERSION = 1;
+
+const DOC_CHUNK_SIZE = 250;
+const SNIPPET_LENGTH = 160;
+const TITLE_LENGTH = 110;
+
+/** Term weight by where it occurs */
+const FIELD_WEIGHTS = { title: 3, meta: 2, body: 1 };
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DIFFICULTY_ORDER = ['Easy', 'Medium', 'Hard'];
+
+export interface SearchIndex {
+    manifest: SearchManifest;
+    facets: SearchFacetIndex;
+    shards: Map<string, SearchTermShard>;
+    docChunks: SearchDocument[][];
+}
+
+interface IndexedDocument {
+    doc: SearchDocument;
+    /** Practice topics (questions: their topic; lessons: topics mapped to them) */
+    topics: string[];
+    fields: { title: string; meta: string; body: string };
+}
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/**
+ * Plain text for indexing; formula placeholders aren't searchable words
+ */
+function toPlainText(content?: string): string {
+    return extractPlainText(content || '').replace(/\[formula\]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length).replace(/\s+\S*$/, '')}…` : text;
+}
+
+function questionDocument(question: Question, slug: string): IndexedDocument {
+    const statement = question.statementType === 'text' ? toPlainText(question.statement) : '';
+    const options = (question.options || [])
+        .filter(opt => opt.type === 'text')
+        .map(opt => toPlainText(opt.content));
+    const explanation = toPlainText(question.explanation);
+
+    return {
+        doc: {
+            kind: 'question',
+            title: statement
+                ? truncate(statement, TITLE_LENGTH)
+                : `${question.topic || 'Aptitude'} question #${question.questionNumber}`,
+            url: `/questions/${slug}`,
+            snippet: truncate(explanation, SNIPPET_LENGTH),
+            ...(question.exam && { exam: question.exam }),
+            ...(question.topic && { topic: question.topic }),
+            ...(question.difficulty && { difficulty: question.difficulty })
+        },
+        topics: question.topic ? [question.topic] : [],
+        fields: {
+            title: statement,
+            meta: [
+                question.exam, question.subExam, question.section, question.category,
+                question.topic, question.difficulty, ...(question.tags || [])
+            ].filter(Boolean).join(' '),
+            body: [toPlainText(question.passage), ...options, explanation].join(' ')
+        }
+    };
+}
+
+function lessonDocument(course: LearningCourse, topic: LearningTopic, practiceTopics: string[]): IndexedDocument {
+    const content = toPlainText(topic.content);
+    const description = topic.description ? toPlainText(topic.description) : '';
+
+    return {
+        doc: {
+            kind: 'lesson',
+            title: topic.title,
+            url: `/learn/${course.slug}/${topic.slug}`,
+            snippet: truncate(description || content, SNIPPET_LENGTH),
+            topic: course.title
+        },
+        topics: practiceTopics,
+        fields: {
+            title: topic.title,
+            meta: [course.title, ...practiceTopics].join(' '),
+            body: `${description} ${content}`
+        }
+    };
+}
+
+/**
+ * BM25 score of every term in every document, grouped into prefix shards
+ */
+function buildTermShards(documents: IndexedDocument[]): Map<string, SearchTermShard> {
+    const termFrequencies = documents.map(({ fields }) => {
+        const tf = new Map<string, number>();
+        for (const field of Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>) {
+            for (const term of tokenizeSearchText(fields[field])) {
+                tf.set(term, (tf.get(term) || 0) + FIELD_WEIGHTS[field]);
+            }
+        }
+        return tf;
+    });
+
+    const lengths = termFrequencies.map(tf => Array.from(tf.values()).reduce((sum, n) => sum + n, 0));
+    const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+
+    const postings = new Map<string, Array<[number, number]>>();
+    termFrequencies.forEach((tf, id) => {
+        for (const [term, count] of tf) {
+            if (!postings.has(term)) postings.set(term, []);
+            postings.get(term)!.push([id, count]);
+        }
+    });
+
+    const shards = new Map<string, SearchTermShard>();
+    for (const [term, list] of Array.from(postings).sort((a, b) => a[0].localeCompare(b[0]))) {
+        const idf = Math.log(1 + (documents.length - list.length + 0.5) / (list.length + 0.5));
+        const scored = list
+            .map(([id, tf]): [number, number] => {
+                const norm = BM25_K1 * (1 - BM25_B + BM25_B * lengths[id] / averageLength);
+                return [id, Math.round(idf * tf * (BM25_K1 + 1) / (tf + norm) * 1000) / 1000];
+            })
+            .sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+
+        const shard = getTermShard(term);
+        if (!shards.has(shard)) shards.set(shard, {});
+        shards.get(shard)![term] = scored;
+    }
+    return shards;
+}
+
+/**
+ * The index stores plurals folded ("trains" → "train"), so the plural of
+ * every term must find it, typed or complete; throws listing terms that don't
+ */
+function checkPluralQueries(shards: Map<string, SearchTermShard>): void {
+    const missed = Array.from(shards.values())
+        .flatMap(terms => Object.keys(terms))
+        .filter(term => /^\p{L}{3,}$/u.test(term) && !term.endsWith('s'))
+        .filter(term => !queryFindsTerm(`${term}s`, term) || !queryFindsTerm(`${term}s `, term));
+    if (missed.length > 0) {
+        throw new Error(`Search index: plural queries miss these terms: ${missed.slice(0, 10).join(', ')}`);
+    }
+}
+
+/**
+ * Facet value lists plus each document's ids into them
+ */
+function buildFacets(documents: IndexedDocument[]): { lists: SearchManifest['facets']; index: SearchFacetIndex } {
+    const unique = (values: Array<string | undefined>) =>
+        [...new Set(values.filter((value): value is string => Boolean(value)))];
+    const questions = documents.filter(({ doc }) => doc.kind === 'question');
+
+    const lists: SearchManifest['facets'] = {
+        kinds: ['question', 'lesson'],
+        exams: unique(questions.map(({ doc }) => doc.exam)).sort(),
+        topics: unique(documents.flatMap(({ topics }) => topics)).sort(),
+        difficulties: unique(questions.map(({ doc }) => doc.difficulty)).sort((a, b) =>
+            (DIFFICULTY_ORDER.indexOf(a) + 1 || 99) - (DIFFICULTY_ORDER.indexOf(b) + 1 || 99) || a.localeCompare(b))
+    };
+
+    const idOf = (list: string[], value?: string) => (value ? list.indexOf(value) : -1);
+    return {
+        lists,
+        index: {
+            kinds: documents.map(({ doc }) => lists.kinds.indexOf(doc.kind)),
+            exams: documents.map(({ doc }) => idOf(lists.exams, doc.exam)),
+            topics: documents.map(({ topics }) => topics.map(topic => lists.topics.indexOf(topic))),
+            difficulties: documents.map(({ doc }) => idOf(lists.difficulties, doc.difficulty))
+        }
+    };
+}
+
+async function buildSearchIndex(): Promise<SearchIndex> {
+    console.log('🔎 Building search index...');
+    const startTime = Date.now();
+
+    const [questions, courses] = await Promise.all([fetchAllQuestions(), fetchAllCourses()]);
+    const seoMap = generateAllQuestionSEO(questions);
+
+    const lessons = courses.flatMap(course =>
+        (course.subjects || []).flatMap(subject =>
+            (subject.topics || [])
+                .filter(({ topic }) => topic.isPublished)
+                .map(({ topic }) => ({ course, topic }))
+        )
+    );
+    const lessonQuestions = mapQuestionsToLessons(lessons.map(({ topic }) => topic), questions);
+
+    const documents: IndexedDocument[] = [
+        ...[...questions]
+            .sort((a, b) => a.questionNumber - b.questionNumber)
+            .filter(question => seoMap.has(question.questionNumber))
+            .map(question => questionDocument(question, seoMap.get(question.questionNumber)!.slug)),
+        ...lessons.map(({ course, topic }) => lessonDocument(
+            course,
+            topic,
+            [...new Set((lessonQuestions.get(topic.slug) || []).map(q => q.topic).filter((t): t is string => Boolean(t)))]
+        ))
+    ];
+
+    const shards = buildTermShards(documents);
+    checkPluralQueries(shards);
+    const facets = buildFacets(documents);
+
+    const docChunks: SearchDocument[][] = [];
+    for (let i = 0; i < documents.length; i += DOC_CHUNK_SIZE) {
+        docChunks.push(documents.slice(i, i + DOC_CHUNK_SIZE).map(({ doc }) => doc));
+    }
+
+    const buildTime = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(`✅ Search index: ${documents.length} documents, ${shards.size} term shards in ${buildTime}s`);
+
+    return {
+        manifest: {
+            version: SEARCH_INDEX_VERSION,
+            documents: documents.length,
+            docChunkSize: DOC_CHUNK_SIZE,
+            shards: Array.from(shards.keys()),
+            facets: facets.lists
+        },
+        facets: facets.index,
+        shards,
+        docChunks
+    };
+}
+
+/**
+ * The search index, built once per build and shared by the /search-index/
+ * routes and the /search page
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+    if (!indexPromise) {
+        indexPromise = buildSearchIndex();
+    }
+    return indexPromise;
+}
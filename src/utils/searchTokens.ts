@@ -0,0 +1,62 @@
+// Search Tokens
+// Tokenizer shared by the build-time search index and the /search page, so
+// queries are split exactly like the indexed text. Must stay browser-safe.
+
+/** Characters of a term that pick its index shard */
+export const SEARCH_SHARD_PREFIX_LENGTH = 2;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from',
+    'is', 'are', 'was', 'were', 'be', 'it', 'its', 'this', 'that', 'as', 'if', 'then', 'so',
+    'what', 'which', 'how', 'find', 'given', 'his', 'her', 'he', 'she', 'they', 'we', 'you'
+]);
+
+/**
+ * Fold a word to its index form (lowercase, crude plural folding)
+ */
+function normalizeTerm(word: string): string {
+    return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+/**
+ * Index terms of a piece of text (letters/digits, 2+ characters, no stopwords)
+ */
+export function tokenizeSearchText(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(word => word.length >= 2 && !STOPWORDS.has(word))
+        .map(normalizeTerm);
+}
+
+/**
+ * Terms of a search box query. While the last word is still being typed
+ * (no trailing space) it's returned separately as prefixes to complete: the
+ * word as typed and its index form, so "trains" still completes to "train".
+ */
+export function tokenizeSearchQuery(query: string): { terms: string[]; prefixes: string[] } {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const typing = words.length > 0 && /[\p{L}\p{N}]$/u.test(query);
+    const last = typing ? words.pop()! : undefined;
+
+    return {
+        terms: tokenizeSearchText(words.join(' ')),
+        prefixes: last && last.length >= SEARCH_SHARD_PREFIX_LENGTH ? [...new Set([last, normalizeTerm(last)])] : []
+    };
+}
+
+/**
+ * Whether a query finds an index term, either as a whole word or as a
+ * completion of the word being typed (looked up in the prefix's shard)
+ */
+export function queryFindsTerm(query: string, term: string): boolean {
+    const { terms, prefixes } = tokenizeSearchQuery(query);
+    return terms.includes(term)
+        || prefixes.some(prefix => term.startsWith(prefix) && getTermShard(prefix) === getTermShard(term));
+}
+
+/**
+ * Shard file name for a term: its first characters, with anything outside
+ * a-z/0-9 replaced so the name is URL-safe
+ */
+export function getTermShard(term: string): string {
+    return term.slice(0, SEARCH_SHARD_PREFIX_LENGTH).replace(/[^a-z0-9]/g, '_');
+}
@@ -1,5 +1,17 @@
 // SEO Generator Utilities
-import type { Question, QuestionSEO, ExamKeywordMap } from '../types';
+import type { Locale, Question, QuestionSEO } from '../types';
+import { isImageUrl } from './validation';
+import { resolvePinnedSlugs, type SlugResolution } from './slugRegistry';
+import { generateQuizSchema } from './structuredData';
+import { getQuestionOgCard, getOgImageUrl } from './ogImage';
+import {
+    getUniversalKeywords,
+    getExamKeywords,
+    getQuestionTemplates,
+    renderTemplate,
+    type TemplatePlaceholder
+} from './examSeoConfig';
+import { DEFAULT_LOCALE, getDifficultyLabel, localizePath, localizeQuestion, t } from './i18n';
 
 /**
  * Create a URL-safe slug from text
@@ -9,44 +21,11 @@ export function createSlug(text: string): string {
     return text.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9\-]/g, '');
 }
 
-const EXAM_KEYWORD_MAP: ExamKeywordMap = {
-    "CAT": ["cat pyq", "cat previous year questions", "cat quant questions", "cat aptitude practice", "cat exam preparation"],
-    "Placements": ["placement aptitude questions", "campus placement practice", "placement papers", "aptitude for placements"],
-    "SSC": {
-        "CGL Tier 1": ["ssc cgl pyq", "ssc cgl tier 1 questions"],
-        "CGL Tier 2": ["ssc cgl tier 2 questions", "ssc cgl tier 2 pyq"],
-        "CHSL": ["ssc chsl questions", "ssc chsl pyq"],
-        "_default": ["ssc aptitude questions", "ssc previous year papers"]
-    },
-    "Banking": {
-        "IBPS PO": ["ibps po questions", "ibps po pyq"],
-        "SBI PO": ["sbi po questions", "sbi po quant"],
-        "RBI Grade B": ["rbi grade b questions"],
-        "_default": ["bank exam aptitude", "bank pyq"]
-    },
-    "Railways": ["railway exam aptitude", "rrb ntpc questions", "rrb pyq"],
-    "CUET": ["cuet gat questions", "cuet aptitude practice", "cuet pyq"]
-};
-
-const UNIVERSAL_KEYWORDS = [
-    "aptitude questions", "aptitude practice", "previous year questions",
-    "quantitative aptitude", "logical reasoning questions", "competitive exam questions", "pyq"
-];
-
-function getExamSpecificKeywords(exam: string, subExam?: string): string[] {
-    const examData = EXAM_KEYWORD_MAP[exam];
-    if (!examData) return [];
-    if (typeof examData === 'object' && !Array.isArray(examData)) {
-        return examData[subExam || '_default'] || examData._default || [];
-    }
-    return examData;
-}
-
 /**
  * Generate comprehensive keywords (specific first, generic last)
  */
-export function generateKeywords(question: Question): string[] {
-    const examKeywords = question.exam ? getExamSpecificKeywords(question.exam, question.subExam) : [];
+export function generateKeywords(question: Question, locale: Locale = DEFAULT_LOCALE): string[] {
+    const examKeywords = getExamKeywords(question.exam, question.subExam, locale);
 
     const hierarchicalKeywords = [
         question.exam?.toLowerCase(),
@@ -60,7 +39,7 @@ export function generateKeywords(question: Question): string[] {
     ].filter(Boolean) as string[];
 
     // Specific keywords first, then exam keywords, then universal (generic) last
-    return [...new Set([...hierarchicalKeywords, ...examKeywords, ...UNIVERSAL_KEYWORDS])];
+    return [...new Set([...hierarchicalKeywords, ...examKeywords, ...getUniversalKeywords(locale)])];
 }
 
 /**
@@ -68,35 +47,24 @@ export function generateKeywords(question: Question): string[] {
  * Returns a Map from questionNumber to slug
  */
 export function generateAllSlugs(questions: Question[]): Map<number, string> {
-    const slugMap = new Map<number, string>();
-    const baseSlugCounts = new Map<string, number[]>();
-
-    // First pass: Build base slugs and track duplicates (O(n))
-    for (const question of questions) {
-        const baseSlug = buildBaseSlug(question);
-        if (!baseSlugCounts.has(baseSlug)) {
-            baseSlugCounts.set(baseSlug, []);
-        }
-        baseSlugCounts.get(baseSlug)!.push(question.questionNumber);
-    }
+    return resolveQuestionSlugs(questions).slugMap;
+}
 
-    // Second pass: Assign final slugs with indices for duplicates (O(n))
-    for (const question of questions) {
-        const baseSlug = buildBaseSlug(question);
-        const questionNumbers = baseSlugCounts.get(baseSlug)!;
-
-        if (questionNumbers.length === 1) {
-            // No duplicates
-            slugMap.set(question.questionNumber, baseSlug);
-        } else {
-            // Has duplicates - assign index based on question number order
-            const sortedNumbers = [...questionNumbers].sort((a, b) => a - b);
-            const index = sortedNumbers.indexOf(question.questionNumber) + 1;
-            slugMap.set(question.questionNumber, `${baseSlug}-${index}`);
-        }
-    }
+/**
+ * Resolve slugs against the slug registry so published URLs stay stable
+ * (see slugRegistry.ts)
+ */
+export function resolveQuestionSlugs(questions: Question[]): SlugResolution {
+    return resolvePinnedSlugs(computeSlugs(questions));
+}
 
-    return slugMap;
+/**
+ * Slugs derived from question content alone. Duplicates keep the same slug
+ * here; resolveSlugs suffixes them with their question number, so a
+ * question's URL never depends on how many duplicates come before it.
+ */
+function computeSlugs(questions: Question[]): Map<number, string> {
+    return new Map(questions.map(question => [question.questionNumber, buildBaseSlug(question)]));
 }
 
 /**
@@ -115,21 +83,6 @@ export function generateSlug(question: Question, slugMap?: Map<number, string>):
     return buildBaseSlug(question);
 }
 
-/**
- * Check if a string is an image URL
- */
-function isImageUrl(text: string): boolean {
-    if (typeof text !== 'string') return false;
-    const lower = text.toLowerCase();
-    // Check for http/https URLs
-    if (lower.startsWith('http://') || lower.startsWith('https://')) return true;
-    // Check for common image extensions in the string
-    if (/\.(jpg|jpeg|png|gif|webp|svg|bmp)(\?|$)/i.test(lower)) return true;
-    // Check for cloudinary URLs
-    if (lower.includes('cloudinary.com') || lower.includes('res.cloudinary.com')) return true;
-    return false;
-}
-
 /**
  * Build base slug for a question (used internally)
  * Ensures slug is safe for file paths and not too long
@@ -192,20 +145,38 @@ export function generateQuickSlug(question: Question): string {
     return buildBaseSlug(question);
 }
 
+/**
+ * Question fields available to title/description templates
+ */
+function getTemplateValues(question: Question, locale: Locale): Partial<Record<TemplatePlaceholder, string>> {
+    return {
+        exam: question.exam,
+        subExam: question.subExam,
+        section: question.section,
+        category: question.category,
+        topic: question.topic,
+        difficulty: getDifficultyLabel(locale, question.difficulty),
+        type: question.type
+    };
+}
+
 /**
  * Generate SEO-optimized title (~120 chars, breaks at word boundary)
+ * from the exam's title template (data/exam-seo.json). Pass the question
+ * already localized (see i18n.ts localizeQuestion).
  */
-export function generateTitle(question: Question): string {
-    const statementText = typeof question.statement === 'string' && !question.statement.startsWith('http')
+export function generateTitle(question: Question, locale: Locale = DEFAULT_LOCALE): string {
+    const statementText = question.statementType === 'text'
         ? question.statement
-        : `${question.topic} Question`;
+        : t(locale, 'seo.topicQuestion', { topic: question.topic });
 
-    const examPart = `${question.exam} ${question.difficulty}`;
-    const topicPart = question.topic;
+    const template = getQuestionTemplates(question.exam, question.subExam, locale).title;
+    const values = getTemplateValues(question, locale);
 
     // Calculate max length for statement to fit everything
-    const suffixLength = ` | ${examPart} | ${topicPart}`.length;
-    const maxStatementLength = 120 - suffixLength - 4; // 4 for "... "
+    // (measured around a one-character statement so surrounding spaces aren't trimmed)
+    const fixedLength = renderTemplate(template, { ...values, statement: '.' }).length - 1;
+    const maxStatementLength = 120 - fixedLength - 4; // 4 for "... "
 
     let truncatedStatement = statementText;
 
@@ -219,85 +190,76 @@ export function generateTitle(question: Question): string {
         truncatedStatement += '...';
     }
 
-    return `${truncatedStatement} | ${examPart} | ${topicPart}`.substring(0, 120);
+    return renderTemplate(template, { ...values, statement: truncatedStatement }).substring(0, 120);
 }
 
-export function generateDescription(question: Question): string {
-    let desc = '';
-
-    if (typeof question.statement === 'string' && !question.statement.startsWith('http')) {
-        desc += question.statement + ' ';
-    } else {
-        desc += `${question.topic} visual question. `;
-    }
+/**
+ * Generate meta description from the exam's description template
+ */
+export function generateDescription(question: Question, locale: Locale = DEFAULT_LOCALE): string {
+    const statement = question.statementType === 'text'
+        ? question.statement
+        : t(locale, 'seo.visualQuestion', { topic: question.topic });
 
+    let answerFormat = '';
     if ((question.type === 'MCQ' || question.type === 'Multiple Correct') && question.options?.length) {
-        const textOptions = question.options.filter((opt: any) => {
-            const isText = !opt.type || opt.type === 'text';
-            const isNotUrl = typeof opt.content === 'string' && !opt.content.startsWith('http');
-            return isText && isNotUrl && opt.content;
-        }).slice(0, 5);
+        const textOptions = question.options.filter(opt => opt.type === 'text').slice(0, 5);
 
         if (textOptions.length > 0) {
-            const optionsText = textOptions.map((opt: any, i: number) =>
+            const optionsText = textOptions.map((opt, i) =>
                 `${String.fromCharCode(65 + i)}) ${opt.content}`
             ).join(' ');
-            desc += `Options: ${optionsText}. `;
+            answerFormat = t(locale, 'seo.options', { options: optionsText });
         }
     } else if (question.type === 'Integer') {
-        desc += 'Answer type: Integer. ';
+        answerFormat = t(locale, 'seo.integerAnswer');
     }
 
-    desc += `${question.exam} ${question.difficulty} ${question.topic} question. `;
-    desc += 'Solve and get step-by-step solution.';
-    return desc;
+    const template = getQuestionTemplates(question.exam, question.subExam, locale).description;
+    return renderTemplate(template, { ...getTemplateValues(question, locale), statement, answerFormat });
 }
 
-export function generateSchema(question: Question): any {
-    const questionText = typeof question.statement === 'string' && !question.statement.startsWith('http')
-        ? question.statement.substring(0, 100)
-        : `${question.topic} Question`;
-
-    return {
-        '@context': 'https://schema.org',
-        '@type': 'Question',
-        'name': questionText,
-        'text': questionText,
-        'eduQuestionType': question.type === 'Integer' ? 'Integer answer' : 'Multiple choice',
-        'educationalLevel': question.difficulty,
-        'about': { '@type': 'Thing', 'name': question.topic }
-    };
+/**
+ * Question page JSON-LD (Quiz with answers and explanation)
+ */
+export function generateSchema(question: Question, locale: Locale = DEFAULT_LOCALE): any {
+    return { ...generateQuizSchema(question), inLanguage: locale };
 }
 
 /**
- * Generate SEO data for a question (optimized version with slug map)
+ * Generate SEO data for a question (optimized version with slug map).
+ * Every locale shares the English slug and OG card.
  */
 export function generateQuestionSEO(
     question: Question,
-    slugMap?: Map<number, string>
+    slugMap?: Map<number, string>,
+    locale: Locale = DEFAULT_LOCALE
 ): QuestionSEO {
     const slug = generateSlug(question, slugMap);
+    const localized = localizeQuestion(question, locale);
     return {
         slug,
-        title: generateTitle(question),
-        description: generateDescription(question),
-        keywords: generateKeywords(question),
-        canonical: `https://aptidude.in/questions/${slug}`,
-        ogImage: '/logo-social.png',
-        schema: generateSchema(question)
+        title: generateTitle(localized, locale),
+        description: generateDescription(localized, locale),
+        keywords: generateKeywords(localized, locale),
+        canonical: `https://aptidude.in${localizePath(`/questions/${slug}`, locale)}`,
+        ogImage: getOgImageUrl(`questions/${slug}`, getQuestionOgCard(question)),
+        schema: generateSchema(localized, locale)
     };
 }
 
 /**
  * Generate SEO data for all questions at once (optimized batch processing)
- * Returns a Map from questionNumber to SEO data
+ * Returns a Map from questionNumber to SEO data; for a translated locale,
+ * only questions translated into it are included
  */
-export function generateAllQuestionSEO(questions: Question[]): Map<number, QuestionSEO> {
+export function generateAllQuestionSEO(questions: Question[], locale: Locale = DEFAULT_LOCALE): Map<number, QuestionSEO> {
     const seoMap = new Map<number, QuestionSEO>();
     const slugMap = generateAllSlugs(questions);
 
     for (const question of questions) {
-        seoMap.set(question.questionNumber, generateQuestionSEO(question, slugMap));
+        if (locale !== DEFAULT_LOCALE && !question.translations?.[locale]) continue;
+        seoMap.set(question.questionNumber, generateQuestionSEO(question, slugMap, locale));
     }
 
     return seoMap;
@@ -0,0 +1,404 @@
+// Sitemaps
+// Builds the sitemap index (/sitemap-index.xml) and its child sitemaps
+// (/sitemap-<section>.xml). Questions are split into numbered chunks so no
+// child exceeds the protocol limits (50,000 URLs / 50MB uncompressed).
+// Question and course images are listed with the image sitemap extension,
+// translated pages next to their English page with hreflang alternates.
+import type { Question, LearningCourse } from '../types';
+import { fetchAllQuestions, fetchAllCourses, buildQuestionIndexes } from './dataFetcher';
+import { buildTopicListings } from './topicListing';
+import { buildLandingPages, type LandingPage } from './landingPages';
+import { buildPyqYearPages } from './pyqPapers';
+import { generateAllQuestionSEO, createSlug } from './seoGenerator';
+import { getEnvNumber } from './env';
+import { getAlternates, getQuestionLocales, getTopicLocales, localizePath, type LocaleAlternate } from './i18n';
+
+export const SITE_URL = 'https://aptidude.in';
+
+const PROTOCOL_MAX_URLS = 50000;
+const PROTOCOL_MAX_BYTES = 50 * 1024 * 1024;
+
+/** URLs per question sitemap (capped at the protocol limit) */
+const MAX_URLS_PER_SITEMAP = Math.min(getEnvNumber('SITEMAP_MAX_URLS', 10000), PROTOCOL_MAX_URLS);
+
+const CORE_COURSES = [
+    'quantitative-aptitude',
+    'logical-reasoning',
+    'reading-comprehension',
+    'verbal-ability',
+    'data-interpretation'
+];
+
+export interface SitemapImage {
+    /** Absolute image URL */
+    loc: string;
+    caption?: string;
+    title?: string;
+}
+
+export interface SitemapEntry {
+    /** Path on SITE_URL */
+    loc: string;
+    /** ISO date of the last content change, omitted when unknown */
+    lastmod?: string;
+    changefreq?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+    priority?: string;
+    /** Images shown on the page (image sitemap extension, max 1000) */
+    images?: SitemapImage[];
+    /** hreflang alternates, including the page itself (see utils/i18n.ts) */
+    alternates?: LocaleAlternate[];
+}
+
+export interface SitemapSection {
+    /** Served at /sitemap-<name>.xml */
+    name: string;
+    entries: SitemapEntry[];
+}
+
+// Static pages on the SEO layer (Astro); lastmod is filled from data
+const seoLayerPages: SitemapEntry[] = [
+    { loc: '/', changefreq: 'daily', priority: '1.0' },
+    { loc: '/learn', changefreq: 'weekly', priority: '0.95' },
+];
+
+// Static pages on the React app (/app)
+const reactAppPages: SitemapEntry[] = [
+    { loc: '/app', changefreq: 'daily', priority: '0.9' },
+    { loc: '/app/learn', changefreq: 'weekly', priority: '0.9' },
+    { loc: '/app/practice', changefreq: 'weekly', priority: '0.9' },
+    { loc: '/app/compete', changefreq: 'weekly', priority: '0.9' },
+    { loc: '/app/question-lists', changefreq: 'weekly', priority: '0.8' },
+    { loc: '/app/catmocks', changefreq: 'weekly', priority: '0.9' },
+    { loc: '/app/discuss', changefreq: 'daily', priority: '0.7' },
+    { loc: '/app/blogs', changefreq: 'daily', priority: '0.8' },
+    { loc: '/app/about', changefreq: 'monthly', priority: '0.5' },
+    { loc: '/app/contact', changefreq: 'monthly', priority: '0.5' },
+    { loc: '/app/ratings-explained', changefreq: 'monthly', priority: '0.5' },
+    { loc: '/app/careers', changefreq: 'weekly', priority: '0.6' },
+    { loc: '/app/terms', changefreq: 'yearly', priority: '0.3' },
+    { loc: '/app/privacy', changefreq: 'yearly', priority: '0.3' },
+    { loc: '/app/cookies', changefreq: 'yearly', priority: '0.3' },
+];
+
+/**
+ * Escape text for use inside an XML element
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Most recent of the given dates as YYYY-MM-DD (invalid/missing dates ignored)
+ */
+export function latestDate(dates: Array<string | undefined>): string | undefined {
+    let latest = 0;
+    for (const date of dates) {
+        const time = date ? new Date(date).getTime() : NaN;
+        if (!Number.isNaN(time) && time > latest) latest = time;
+    }
+    return latest > 0 ? new Date(latest).toISOString().split('T')[0] : undefined;
+}
+
+function renderImage(image: SitemapImage): string {
+    return `
+    <image:image>
+      <image:loc>${escapeXml(image.loc)}</image:loc>${image.caption ? `
+      <image:caption>${escapeXml(image.caption)}</image:caption>` : ''}${image.title ? `
+      <image:title>${escapeXml(image.title)}</image:title>` : ''}
+    </image:image>`;
+}
+
+function renderUrl(entry: SitemapEntry): string {
+    return `
+  <url>
+    <loc>${escapeXml(SITE_URL + entry.loc)}</loc>${entry.lastmod ? `
+    <lastmod>${entry.lastmod}</lastmod>` : ''}${entry.changefreq ? `
+    <changefreq>${entry.changefreq}</changefreq>` : ''}${entry.priority ? `
+    <priority>${entry.priority}</priority>` : ''}${(entry.alternates || []).map(renderAlternate).join('')}${(entry.images || []).slice(0, 1000).map(renderImage).join('')}
+  </url>`;
+}
+
+function renderAlternate(alternate: LocaleAlternate): string {
+    return `
+    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}" />`;
+}
+
+const URLSET_OPEN = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1" xmlns:xhtml="http://www.w3.org/1999/xhtml">`;
+const URLSET_CLOSE = `
+</urlset>`;
+
+/**
+ * Render a child sitemap
+ */
+export function renderUrlset(entries: SitemapEntry[]): string {
+    return URLSET_OPEN + entries.map(renderUrl).join('') + URLSET_CLOSE;
+}
+
+/**
+ * Render the sitemap index; each child's lastmod is its newest entry
+ */
+export function renderSitemapIndex(sections: SitemapSection[]): string {
+    const children = sections.map(section => {
+        const lastmod = latestDate(section.entries.map(entry => entry.lastmod));
+        return `
+  <sitemap>
+    <loc>${escapeXml(`${SITE_URL}/sitemap-${section.name}.xml`)}</loc>${lastmod ? `
+    <lastmod>${lastmod}</lastmod>` : ''}
+  </sitemap>`;
+    }).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${children}
+</sitemapindex>`;
+}
+
+/**
+ * Split entries into chunks that stay under both the URL and byte limits
+ */
+export function chunkEntries(
+    entries: SitemapEntry[],
+    maxUrls = MAX_URLS_PER_SITEMAP,
+    maxBytes = PROTOCOL_MAX_BYTES
+): SitemapEntry[][] {
+    const envelopeBytes = Buffer.byteLength(URLSET_OPEN + URLSET_CLOSE);
+    const chunks: SitemapEntry[][] = [];
+    let current: SitemapEntry[] = [];
+    let bytes = envelopeBytes;
+
+    for (const entry of entries) {
+        const entryBytes = Buffer.byteLength(renderUrl(entry));
+        if (current.length > 0 && (current.length >= maxUrls || bytes + entryBytes > maxBytes)) {
+            chunks.push(current);
+            current = [];
+            bytes = envelopeBytes;
+        }
+        current.push(entry);
+        bytes += entryBytes;
+    }
+    if (current.length > 0) chunks.push(current);
+
+    return chunks;
+}
+
+/**
+ * Caption context for a question image, e.g. "Ratio and Proportion question
+ * from SSC CHSL"
+ */
+function describeQuestion(question: Question): string {
+    const subject = question.topic || question.category || question.section;
+    const exam = [question.exam, question.subExam].filter(Boolean).join(' ');
+    return `${subject ? `${subject} question` : 'Question'}${exam ? ` from ${exam}` : ''}`;
+}
+
+/**
+ * Statement and option images of a question
+ */
+export function getQuestionImages(question: Question, title?: string): SitemapImage[] {
+    const context = describeQuestion(question);
+    const images: SitemapImage[] = [];
+
+    if (question.statementType === 'image') {
+        images.push({ loc: question.statement, caption: context, title });
+    }
+    // Question pages show the first 5 options
+    (question.options || []).slice(0, 5).forEach((option, index) => {
+        if (option.type !== 'image') return;
+        images.push({
+            loc: option.content,
+            caption: `Option ${String.fromCharCode(65 + index)} - ${context}`,
+            title
+        });
+    });
+
+    return images;
+}
+
+/**
+ * Latest change across a course and its published topics
+ */
+function getCourseLastmod(course: LearningCourse): string | undefined {
+    const topicDates = (course.subjects || []).flatMap(subject =>
+        (subject.topics || []).map(({ topic }) => topic.updatedAt)
+    );
+    return latestDate([course.updatedAt, ...topicDates]);
+}
+
+function buildLearnEntries(courses: LearningCourse[]): SitemapEntry[] {
+    const entries: SitemapEntry[] = [];
+
+    for (const course of courses.filter(c => CORE_COURSES.includes(c.slug))) {
+        entries.push({
+            loc: `/learn/${course.slug}`,
+            lastmod: getCourseLastmod(course),
+            changefreq: 'weekly',
+            priority: '0.95',
+            images: course.thumbnail
+                ? [{ loc: course.thumbnail, caption: `${course.title} course`, title: course.title }]
+                : undefined
+        });
+
+        for (const subject of course.subjects || []) {
+            for (const { topic } of subject.topics || []) {
+                if (!topic.isPublished) continue;
+                const path = `/learn/${course.slug}/${topic.slug}`;
+                const locales = getTopicLocales(topic);
+                const alternates = getAlternates(path, locales);
+                for (const locale of locales) {
+                    entries.push({
+                        loc: localizePath(path, locale),
+                        lastmod: latestDate([topic.updatedAt]),
+                        changefreq: 'weekly',
+                        priority: '0.9',
+                        alternates: alternates.length > 0 ? alternates : undefined
+                    });
+                }
+            }
+        }
+    }
+
+    return entries;
+}
+
+function buildExamEntries(questions: Question[], landingPages: LandingPage[]): SitemapEntry[] {
+    const indexes = buildQuestionIndexes(questions);
+    const entries: SitemapEntry[] = [];
+
+    for (const [examName, examQuestions] of indexes.byExam) {
+        entries.push({
+            loc: `/learn/${createSlug(examName)}`,
+            lastmod: latestDate(examQuestions.map(q => q.updatedAt)),
+            changefreq: 'weekly',
+            priority: '0.85'
+        });
+    }
+
+    // Topic listings with their later pages and difficulty facets; facets
+    // that duplicate the main listing canonicalize to it and are left out
+    for (const listing of buildTopicListings(questions)) {
+        if (listing.path !== listing.canonicalPath) continue;
+        entries.push({
+            loc: listing.path,
+            lastmod: latestDate(listing.questions.map(q => q.updatedAt)),
+            changefreq: 'weekly',
+            priority: listing.page > 1 ? '0.6' : listing.difficulty ? '0.7' : '0.8'
+        });
+    }
+
+    for (const page of landingPages) {
+        if (page.kind === 'tag') continue;
+        entries.push({
+            loc: page.path,
+            lastmod: latestDate([page.lastmod]),
+            changefreq: 'weekly',
+            priority: '0.75'
+        });
+    }
+
+    return entries;
+}
+
+function buildTagEntries(landingPages: LandingPage[]): SitemapEntry[] {
+    return landingPages
+        .filter(page => page.kind === 'tag')
+        .map(page => ({
+            loc: page.path,
+            lastmod: latestDate([page.lastmod]),
+            changefreq: 'weekly' as const,
+            priority: '0.6'
+        }));
+}
+
+function buildPyqEntries(questions: Question[]): SitemapEntry[] {
+    return buildPyqYearPages(questions).map(page => ({
+        loc: page.path,
+        lastmod: latestDate([page.lastmod]),
+        changefreq: 'monthly' as const,
+        priority: '0.8'
+    }));
+}
+
+function buildQuestionEntries(questions: Question[]): SitemapEntry[] {
+    const seoMap = generateAllQuestionSEO(questions);
+
+    // Ordered by questionNumber so a question stays in the same chunk between builds
+    return [...questions]
+        .sort((a, b) => a.questionNumber - b.questionNumber)
+        .flatMap(q => {
+            const seo = seoMap.get(q.questionNumber);
+            if (!seo) {
+                console.warn(`⚠️  No SEO data for question #${q.questionNumber}`);
+                return [];
+            }
+            const images = getQuestionImages(q, seo.title);
+            const path = `/questions/${seo.slug}`;
+            const locales = getQuestionLocales(q);
+            const alternates = getAlternates(path, locales);
+            // Translations follow their English page and share its images
+            return locales.map(locale => ({
+                loc: localizePath(path, locale),
+                lastmod: latestDate([q.updatedAt]),
+                changefreq: 'monthly' as const,
+                priority: '0.7',
+                images: images.length > 0 ? images : undefined,
+                alternates: alternates.length > 0 ? alternates : undefined
+            }));
+        });
+}
+
+let sectionsPromise: Promise<SitemapSection[]> | null = null;
+
+/**
+ * All sitemap sections, built once per build and shared by the index and
+ * child sitemap routes
+ */
+export function getSitemapSections(): Promise<SitemapSection[]> {
+    if (!sectionsPromise) {
+        sectionsPromise = buildSitemapSections();
+    }
+    return sectionsPromise;
+}
+
+async function buildSitemapSections(): Promise<SitemapSection[]> {
+    console.log('🗺️  Generating sitemaps...');
+    const startTime = Date.now();
+
+    const [questions, courses] = await Promise.all([fetchAllQuestions(), fetchAllCourses()]);
+
+    const learnEntries = buildLearnEntries(courses);
+    const pages = [
+        ...seoLayerPages.map(page => ({
+            ...page,
+            lastmod: page.loc === '/'
+                ? latestDate(questions.map(q => q.updatedAt))
+                : latestDate(learnEntries.map(entry => entry.lastmod))
+        })),
+        ...reactAppPages
+    ];
+
+    const landingPages = buildLandingPages(questions);
+    const tagEntries = buildTagEntries(landingPages);
+    const pyqEntries = buildPyqEntries(questions);
+    const questionChunks = chunkEntries(buildQuestionEntries(questions));
+    const sections: SitemapSection[] = [
+        { name: 'pages', entries: pages },
+        { name: 'learn', entries: learnEntries },
+        { name: 'exams', entries: buildExamEntries(questions, landingPages) },
+        ...(tagEntries.length > 0 ? [{ name: 'tags', entries: tagEntries }] : []),
+        ...(pyqEntries.length > 0 ? [{ name: 'pyq', entries: pyqEntries }] : []),
+        ...questionChunks.map((entries, index) => ({ name: `questions-${index + 1}`, entries }))
+    ];
+
+    const totalUrls = sections.reduce((sum, section) => sum + section.entries.length, 0);
+    console.log(`✅ Sitemaps generated in ${((Date.now() - startTime) / 1000).toFixed(2)}s with ${totalUrls} URLs`);
+    for (const section of sections) {
+        console.log(`   - sitemap-${section.name}.xml: ${section.entries.length}`);
+    }
+
+    return sections;
+}
@@ -0,0 +1,263 @@
+// Slug Registry
+// Pins every published question slug to its questionNumber so that editing a
+// statement, or adding a question with the same base slug, never changes an
+// existing URL. Slug changes only happen when explicitly accepted, and every
+// replaced slug is kept so a 301 redirect can be generated for it.
+//
+// The registry lives in src/data/slug-registry.json and is committed: run a
+// production build (API data source), then commit the registry together with
+// the redirects it writes into vercel.json. Translated pages share the English
+// slug, so each old slug is redirected in every locale the question is
+// published in.
+import fs from 'node:fs';
+import path from 'node:path';
+import { readEnv, getEnvFlag } from './env';
+import { getDataSource } from './dataSource';
+import { writeBuildReport } from './buildReport';
+import { DEFAULT_LOCALE, LOCALES, localizePath } from './i18n';
+import type { Locale } from '../types';
+
+export const SLUG_REGISTRY_VERSION = 1;
+
+export interface SlugRegistryEntry {
+    /** Slug currently served for the question */
+    slug: string;
+    /** Earlier slugs, each redirected to `slug` */
+    previous?: string[];
+    /** When `slug` was pinned */
+    pinnedAt: string;
+}
+
+export interface SlugRegistry {
+    version: number;
+    questions: Record<string, SlugRegistryEntry>;
+}
+
+export interface SlugDrift {
+    questionNumber: number;
+    pinned: string;
+    computed: string;
+}
+
+export interface SlugResolution {
+    /** Final slug per questionNumber */
+    slugMap: Map<number, string>;
+    /** Questions published for the first time in this build */
+    added: Array<{ questionNumber: number; slug: string }>;
+    /** Slug changes applied in this build (SLUG_ACCEPT_CHANGES=1) */
+    accepted: SlugDrift[];
+    /** Pinned questions whose computed slug differs; the pinned slug is kept */
+    drift: SlugDrift[];
+}
+
+export interface SlugRedirect {
+    source: string;
+    destination: string;
+    statusCode: 301;
+}
+
+const getRegistryPath = (): string =>
+    path.resolve(process.cwd(), readEnv('SLUG_REGISTRY_PATH') || 'src/data/slug-registry.json');
+
+const emptyRegistry = (): SlugRegistry => ({ version: SLUG_REGISTRY_VERSION, questions: {} });
+
+/**
+ * The registry only describes production (API) questions: fixture builds
+ * start from an empty registry and never write it.
+ */
+const usesProductionData = (): boolean => getDataSource().name === 'api';
+
+let registryCache: SlugRegistry | null = null;
+
+/**
+ * Load the registry from disk (once per build)
+ */
+export function loadSlugRegistry(): SlugRegistry {
+    if (registryCache) return registryCache;
+
+    const file = getRegistryPath();
+    if (!usesProductionData() || !fs.existsSync(file)) {
+        registryCache = emptyRegistry();
+        return registryCache;
+    }
+
+    const registry = JSON.parse(fs.readFileSync(file, 'utf-8')) as SlugRegistry;
+    if (registry.version !== SLUG_REGISTRY_VERSION) {
+        throw new Error(`${file} has version ${registry.version}, expected ${SLUG_REGISTRY_VERSION}`);
+    }
+
+    registryCache = registry;
+    return registryCache;
+}
+
+/**
+ * Resolve final slugs: pinned slugs win unless `acceptChanges` is set and the
+ * computed slug isn't owned by another question; new questions get their
+ * computed slug, suffixed with the question number if it is already owned
+ * (as a current or redirected slug) by another question. The suffix depends
+ * only on the question itself, so unpinned slugs don't shift either when a
+ * duplicate is added.
+ * Pure: the registry is never modified.
+ */
+export function resolveSlugs(
+    computed: Map<number, string>,
+    registry: SlugRegistry,
+    acceptChanges = false
+): SlugResolution {
+    const slugMap = new Map<number, string>();
+    const added: SlugResolution['added'] = [];
+    const accepted: SlugDrift[] = [];
+    const drift: SlugDrift[] = [];
+
+    // slug -> questionNumber, including slugs of questions no longer published
+    const owners = new Map<string, number>();
+    for (const [questionNumber, entry] of Object.entries(registry.questions)) {
+        for (const slug of [entry.slug, ...(entry.previous || [])]) {
+            owners.set(slug, Number(questionNumber));
+        }
+    }
+
+    // Pinned questions first so new questions can't claim their slugs
+    for (const [questionNumber, computedSlug] of computed) {
+        const entry = registry.questions[questionNumber];
+        if (!entry) continue;
+
+        slugMap.set(questionNumber, entry.slug);
+        if (entry.slug === computedSlug) continue;
+
+        const change = { questionNumber, pinned: entry.slug, computed: computedSlug };
+        const owner = owners.get(computedSlug);
+        if (acceptChanges && (owner === undefined || owner === questionNumber)) {
+            owners.set(computedSlug, questionNumber);
+            slugMap.set(questionNumber, computedSlug);
+            accepted.push(change);
+        } else {
+            drift.push(change);
+        }
+    }
+
+    // Lowest question number first, so of several new questions sharing a
+    // slug the oldest keeps it whatever order the data source returns them in
+    const unpinned = Array.from(computed)
+        .filter(([questionNumber]) => !slugMap.has(questionNumber))
+        .sort((a, b) => a[0] - b[0]);
+    for (const [questionNumber, computedSlug] of unpinned) {
+
+        const slug = owners.has(computedSlug) ? `${computedSlug}-q${questionNumber}` : computedSlug;
+        owners.set(slug, questionNumber);
+        slugMap.set(questionNumber, slug);
+        added.push({ questionNumber, slug });
+    }
+
+    return { slugMap, added, accepted, drift };
+}
+
+/**
+ * Resolve computed slugs against the committed registry
+ */
+export function resolvePinnedSlugs(computed: Map<number, string>): SlugResolution {
+    return resolveSlugs(computed, loadSlugRegistry(), getEnvFlag('SLUG_ACCEPT_CHANGES'));
+}
+
+/**
+ * 301 redirects from every previous slug to the current one, in each locale
+ * the question is published in (English only when `questionLocales` doesn't
+ * list it)
+ */
+export function buildSlugRedirects(
+    registry: SlugRegistry,
+    questionLocales: Map<number, readonly Locale[]> = new Map()
+): SlugRedirect[] {
+    const redirects: SlugRedirect[] = [];
+    for (const [questionNumber, entry] of Object.entries(registry.questions)) {
+        const locales = questionLocales.get(Number(questionNumber)) ?? [DEFAULT_LOCALE];
+        for (const old of entry.previous || []) {
+            for (const locale of locales) {
+                redirects.push({
+                    source: localizePath(`/questions/${old}`, locale),
+                    destination: localizePath(`/questions/${entry.slug}`, locale),
+                    statusCode: 301
+                });
+            }
+        }
+    }
+    return redirects.sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * Whether a vercel.json redirect is a question-slug redirect (any locale)
+ * owned by the registry
+ */
+const isSlugRedirect = (source: string): boolean =>
+    LOCALES.some(locale => source.startsWith(localizePath('/questions/', locale)));
+
+/**
+ * Replace the question-slug redirects in vercel.json, leaving every
+ * hand-written redirect untouched. Returns whether the file changed.
+ */
+export function writeVercelRedirects(redirects: SlugRedirect[]): boolean {
+    const file = path.resolve(process.cwd(), 'vercel.json');
+    const current = fs.readFileSync(file, 'utf-8');
+    const config = JSON.parse(current);
+
+    const manual = (config.redirects || []).filter(
+        (redirect: { source: string }) => !isSlugRedirect(redirect.source)
+    );
+    config.redirects = [...manual, ...redirects];
+
+    const next = JSON.stringify(config, null, 2) + '\n';
+    if (next === current) return false;
+    fs.writeFileSync(file, next);
+    return true;
+}
+
+/**
+ * Record a resolution in the registry: pin new slugs, move accepted changes
+ * to their new slug keeping the old one for redirects, then write the
+ * registry, vercel.json redirects and reports/slug-registry.json.
+ * `questionLocales` lists the locales each question is published in; the
+ * redirects are also refreshed when only those changed.
+ * No-op for non-production data.
+ */
+export function persistSlugRegistry(
+    resolution: SlugResolution,
+    questionLocales: Map<number, readonly Locale[]> = new Map()
+): void {
+    if (!usesProductionData()) return;
+
+    const { added, accepted, drift } = resolution;
+    let registry = loadSlugRegistry();
+
+    if (added.length > 0 || accepted.length > 0) {
+        registry = structuredClone(registry);
+        const now = new Date().toISOString();
+
+        for (const { questionNumber, slug } of added) {
+            registry.questions[questionNumber] = { slug, pinnedAt: now };
+        }
+        for (const change of accepted) {
+            const entry = registry.questions[change.questionNumber];
+            registry.questions[change.questionNumber] = {
+                slug: change.computed,
+                previous: [...new Set([...(entry.previous || []), entry.slug])]
+                    .filter(old => old !== change.computed),
+                pinnedAt: now
+            };
+        }
+
+        const file = getRegistryPath();
+        fs.writeFileSync(file, JSON.stringify(registry, null, 2) + '\n');
+        console.log(`🔗 Slug registry: pinned ${added.length} new, accepted ${accepted.length} changed`);
+        console.log(`  → Commit ${path.relative(process.cwd(), file)} and vercel.json`);
+    }
+
+    if (writeVercelRedirects(buildSlugRedirects(registry, questionLocales))) {
+        console.log('🔗 Updated question slug redirects in vercel.json');
+    }
+
+    if (drift.length > 0) {
+        console.warn(`⚠ ${drift.length} question slugs would change; kept pinned (set SLUG_ACCEPT_CHANGES=1 to accept and redirect)`);
+    }
+
+    writeBuildReport('slug-registry', { added, accepted, drift });
+}
@@ -0,0 +1,317 @@
+// Structured Data
+// schema.org JSON-LD builders shared by pages, plus a build-time check that
+// flags schema objects missing properties search engines require.
+import type { Question } from '../types';
+import { getCorrectOptionIndexes, getIntegerAnswer, optionLabel } from './answerKey';
+import { extractPlainText, replaceMath } from './markdownRenderer';
+import { writeBuildReport } from './buildReport';
+import { getEnvFlag } from './env';
+
+const SITE_URL = 'https://aptidude.in';
+
+const PROVIDER = {
+    '@type': 'Organization',
+    'name': 'AptiDude',
+    'sameAs': SITE_URL
+};
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * Plain text for schema fields; math keeps its TeX source instead of the
+ * "[formula]" placeholder used for meta descriptions
+ */
+function toSchemaText(content: string): string {
+    return extractPlainText(replaceMath(content, tex => tex));
+}
+
+const EDU_QUESTION_TYPES: Record<string, string> = {
+    'MCQ': 'Multiple choice',
+    'Multiple Correct': 'Checkbox',
+    'Integer': 'Flashcard'
+};
+
+/**
+ * Subject/exam alignment of a question (exam, sub-exam, section, topic)
+ */
+function getEducationalAlignment(question: Question) {
+    const targets: Array<[string, string | undefined]> = [
+        ['educationalSubject', question.section || question.category],
+        ['educationalSubject', question.topic],
+        ['educationalLevel', [question.exam, question.subExam].filter(Boolean).join(' ') || undefined]
+    ];
+
+    const unique = new Map(
+        targets
+            .filter((target): target is [string, string] => Boolean(target[1]))
+            .map(target => [target.join('::'), target])
+    );
+
+    return Array.from(unique.values())
+        .map(([alignmentType, targetName]) => ({
+            '@type': 'AlignmentObject',
+            'alignmentType': alignmentType,
+            'targetName': targetName
+        }));
+}
+
+/**
+ * A question with its answer choices, the accepted answer(s) and the
+ * explanation, as a Quiz `hasPart` entry
+ */
+function buildQuizQuestion(question: Question): any {
+    const isText = question.statementType === 'text';
+    const statementText = isText
+        ? toSchemaText(question.statement)
+        : `${question.topic || 'Aptitude'} visual question`;
+    const explanation = question.explanation ? toSchemaText(question.explanation) : '';
+
+    const options = question.options || [];
+    const correct = getCorrectOptionIndexes(question);
+    const answer = (index: number) => ({
+        '@type': 'Answer',
+        'position': index,
+        'text': options[index].type === 'text'
+            ? toSchemaText(options[index].content)
+            : `Option ${optionLabel(index)}`,
+        ...(options[index].type === 'image' && { 'image': options[index].content })
+    });
+
+    let acceptedAnswer: any;
+    let suggestedAnswer: any[] | undefined;
+
+    if (question.type === 'Integer') {
+        const value = getIntegerAnswer(question);
+        if (value !== null) {
+            acceptedAnswer = { '@type': 'Answer', 'text': String(value) };
+        }
+    } else if (options.length > 0) {
+        suggestedAnswer = options.map((_, index) => index).filter(i => !correct.includes(i)).map(answer);
+        if (correct.length > 0) {
+            acceptedAnswer = correct.length === 1 ? answer(correct[0]) : correct.map(answer);
+        }
+    }
+
+    // Without a resolvable answer, the explanation is the best answer we have
+    if (!acceptedAnswer && explanation) {
+        acceptedAnswer = { '@type': 'Answer', 'text': explanation };
+    } else if (acceptedAnswer && explanation) {
+        const withExplanation = (a: any) => ({
+            ...a,
+            'answerExplanation': { '@type': 'Comment', 'text': explanation }
+        });
+        acceptedAnswer = Array.isArray(acceptedAnswer)
+            ? acceptedAnswer.map(withExplanation)
+            : withExplanation(acceptedAnswer);
+    }
+
+    return {
+        '@type': 'Question',
+        'eduQuestionType': EDU_QUESTION_TYPES[question.type] || 'Flashcard',
+        'learningResourceType': 'Practice problem',
+        'text': statementText,
+        ...(!isText && { 'image': question.statement }),
+        ...(suggestedAnswer && suggestedAnswer.length > 0 && { 'suggestedAnswer': suggestedAnswer }),
+        ...(acceptedAnswer && { 'acceptedAnswer': acceptedAnswer })
+    };
+}
+
+/**
+ * Quiz JSON-LD for a question page: the question with its answer choices,
+ * the accepted answer(s) and the explanation
+ */
+export function generateQuizSchema(question: Question): any {
+    const part = buildQuizQuestion(question);
+
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Quiz',
+        'name': part.text.substring(0, 100),
+        'about': { '@type': 'Thing', 'name': question.topic || question.category || 'Aptitude' },
+        ...(question.difficulty && { 'educationalLevel': question.difficulty }),
+        'educationalAlignment': getEducationalAlignment(question),
+        'hasPart': [part]
+    };
+}
+
+/**
+ * Quiz JSON-LD for a past paper: its questions in paper order, each linking
+ * to its question page
+ */
+export function generatePaperQuizSchema(
+    paper: { name: string; url: string; exam: string; date?: string },
+    questions: Array<{ question: Question; url: string }>
+): any {
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Quiz',
+        'name': paper.name,
+        'url': paper.url,
+        'about': { '@type': 'Thing', 'name': `${paper.exam} previous year questions` },
+        'educationalLevel': paper.exam,
+        ...(paper.date && { 'dateCreated': paper.date }),
+        'hasPart': questions.map(({ question, url }, index) => ({
+            ...buildQuizQuestion(question),
+            'position': index + 1,
+            'url': url
+        }))
+    };
+}
+
+/**
+ * ItemList JSON-LD for a page listing question pages
+ */
+export function generateQuestionListSchema(
+    name: string,
+    description: string,
+    items: Array<{ url: string; name?: string }>,
+    totalItems = items.length
+): any {
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'ItemList',
+        'name': name,
+        'description': description,
+        'numberOfItems': totalItems,
+        'itemListElement': items.map((item, index) => ({
+            '@type': 'ListItem',
+            'position': index + 1,
+            'url': item.url,
+            ...(item.name && { 'name': item.name })
+        }))
+    };
+}
+
+/**
+ * Course JSON-LD with its topics as `hasPart` sub-courses
+ */
+export function generateCourseSchema(
+    course: { title: string; description: string; url: string; image?: string },
+    topics: Array<{ title: string; description?: string; url: string }>
+): any {
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Course',
+        'name': course.title,
+        'description': course.description,
+        'url': course.url,
+        ...(course.image && { 'image': course.image }),
+        'provider': PROVIDER,
+        'offers': {
+            '@type': 'Offer',
+            'category': 'Free',
+            'price': '0',
+            'priceCurrency': 'INR',
+            'availability': 'https://schema.org/InStock'
+        },
+        'hasCourseInstance': {
+            '@type': 'CourseInstance',
+            'courseMode': 'online'
+        },
+        'numberOfCredits': topics.length,
+        'hasPart': topics.map(topic => ({
+            '@type': 'Course',
+            'name': topic.title,
+            'description': topic.description || `Learn ${topic.title} as part of ${course.title}.`,
+            'url': topic.url,
+            'provider': PROVIDER
+        }))
+    };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Properties each type must have to be eligible for rich results
+ */
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+    'Quiz': ['hasPart', 'about'],
+    'Question': ['text', 'eduQuestionType', 'acceptedAnswer'],
+    'Answer': ['text'],
+    'Comment': ['text'],
+    'AlignmentObject': ['alignmentType', 'targetName'],
+    'ItemList': ['itemListElement'],
+    'ListItem': ['position'],
+    'BreadcrumbList': ['itemListElement'],
+    'Course': ['name', 'description', 'provider'],
+    'LearningResource': ['name'],
+    'CollectionPage': ['name', 'url'],
+    'WebPage': ['name', 'url'],
+    'WebSite': ['name', 'url'],
+    'Organization': ['name']
+};
+
+/**
+ * Properties that only reference another entity (e.g. the course a topic is
+ * part of); their values aren't held to the required properties above
+ */
+const REFERENCE_PROPERTIES = new Set(['isPartOf', 'about', 'sameAs']);
+
+const isMissing = (value: unknown): boolean =>
+    value === undefined || value === null || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check a JSON-LD object (recursively) for missing required properties.
+ * Returns one message per problem, with a path to the offending object.
+ */
+export function validateSchema(schema: unknown, path = '$'): string[] {
+    if (Array.isArray(schema)) {
+        return schema.flatMap((item, index) => validateSchema(item, `${path}[${index}]`));
+    }
+    if (!schema || typeof schema !== 'object') return [];
+
+    const node = schema as Record<string, unknown>;
+    const issues: string[] = [];
+    const type = typeof node['@type'] === 'string' ? node['@type'] : undefined;
+
+    for (const property of (type && REQUIRED_PROPERTIES[type]) || []) {
+        if (isMissing(node[property])) {
+            issues.push(`${path} (${type}): missing "${property}"`);
+        }
+    }
+    // Summary/breadcrumb list items point somewhere
+    if (type === 'ListItem' && isMissing(node.url) && isMissing(node.item) && isMissing(node.name)) {
+        issues.push(`${path} (ListItem): needs "url", "item" or "name"`);
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+        if (value && typeof value === 'object' && !REFERENCE_PROPERTIES.has(key)) {
+            issues.push(...validateSchema(value, `${path}.${key}`));
+        }
+    }
+
+    return issues;
+}
+
+const schemaIssues: Record<string, string[]> = {};
+
+/**
+ * Validate and serialize JSON-LD for a <script type="application/ld+json">.
+ * Problems are logged and collected in reports/structured-data.json;
+ * STRUCTURED_DATA_STRICT=1 fails the build instead.
+ */
+export function serializeSchema(schema: unknown, page: string): string {
+    const issues = validateSchema(schema);
+
+    if (issues.length > 0) {
+        const message = `Invalid structured data on ${page}:\n  ${issues.join('\n  ')}`;
+        if (getEnvFlag('STRUCTURED_DATA_STRICT')) {
+            throw new Error(message);
+        }
+        console.warn(`⚠ ${message}`);
+
+        schemaIssues[page] = [...(schemaIssues[page] || []), ...issues];
+        writeBuildReport('structured-data', {
+            pages: Object.keys(schemaIssues).length,
+            issues: schemaIssues
+        });
+    }
+
+    // Keep "</script>" inside strings from closing the tag
+    return JSON.stringify(schema).replace(/</g, '\\u003c');
+}
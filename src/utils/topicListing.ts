@@ -0,0 +1,113 @@
+// Topic Listings
+// The static /learn/:exam/:topic listing pages: every exam+topic bucket is
+// split into numbered pages, plus one facet listing per difficulty.
+import type { Question } from '../types';
+import { buildQuestionIndexes } from './dataFetcher';
+import { createSlug } from './seoGenerator';
+import { getEnvNumber } from './env';
+
+/** Questions per listing page */
+export const TOPIC_PAGE_SIZE = Math.max(1, getEnvNumber('TOPIC_PAGE_SIZE', 50));
+
+export const DIFFICULTY_FACETS = ['easy', 'medium', 'hard'] as const;
+
+export type DifficultyFacet = typeof DIFFICULTY_FACETS[number];
+
+export interface TopicListingPage {
+    examName: string;
+    examSlug: string;
+    topicName: string;
+    topicSlug: string;
+    /** Set on difficulty facet listings */
+    difficulty?: DifficultyFacet;
+    page: number;
+    totalPages: number;
+    /** Questions on this page, in listing order */
+    questions: Question[];
+    /** Questions in the whole listing (all pages) */
+    totalQuestions: number;
+    /** Breakdown of the whole exam+topic bucket, for stats and facet links */
+    difficultyCount: Record<DifficultyFacet, number>;
+    path: string;
+    prevPath?: string;
+    nextPath?: string;
+    /**
+     * Path of the page search engines should index instead (a facet that
+     * holds every question of the topic duplicates the main listing)
+     */
+    canonicalPath: string;
+}
+
+/**
+ * URL path of a listing page: page 1 is the bare listing, later pages
+ * append /page/<n> (/learn/cat/percentages/easy/page/2)
+ */
+export function getTopicListingPath(
+    examSlug: string,
+    topicSlug: string,
+    difficulty?: DifficultyFacet,
+    page = 1
+): string {
+    const base = `/learn/${examSlug}/${topicSlug}${difficulty ? `/${difficulty}` : ''}`;
+    return page > 1 ? `${base}/page/${page}` : base;
+}
+
+/**
+ * Every listing page of every exam+topic bucket
+ */
+export function buildTopicListings(questions: Question[]): TopicListingPage[] {
+    const indexes = buildQuestionIndexes(questions);
+    const pages: TopicListingPage[] = [];
+
+    for (const [key, topicQuestions] of indexes.byExamAndTopic) {
+        const [examName, topicName] = key.split('::');
+        const examSlug = createSlug(examName);
+        const topicSlug = createSlug(topicName);
+
+        // Newest first by questionNumber (not updatedAt) so edits don't
+        // reshuffle questions between pages
+        const sorted = [...topicQuestions].sort((a, b) => b.questionNumber - a.questionNumber);
+        const byDifficulty = (difficulty: DifficultyFacet) =>
+            sorted.filter(q => q.difficulty?.toLowerCase() === difficulty);
+
+        const difficultyCount = {
+            easy: byDifficulty('easy').length,
+            medium: byDifficulty('medium').length,
+            hard: byDifficulty('hard').length
+        };
+
+        const listings: Array<{ difficulty?: DifficultyFacet; questions: Question[] }> = [
+            { questions: sorted },
+            ...DIFFICULTY_FACETS
+                .filter(difficulty => difficultyCount[difficulty] > 0)
+                .map(difficulty => ({ difficulty, questions: byDifficulty(difficulty) }))
+        ];
+
+        for (const { difficulty, questions: listed } of listings) {
+            const totalPages = Math.max(1, Math.ceil(listed.length / TOPIC_PAGE_SIZE));
+            const duplicatesMain = difficulty !== undefined && listed.length === sorted.length;
+            const pathFor = (page: number) => getTopicListingPath(examSlug, topicSlug, difficulty, page);
+
+            for (let page = 1; page <= totalPages; page++) {
+                pages.push({
+                    examName,
+                    examSlug,
+                    topicName,
+                    topicSlug,
+                    difficulty,
+                    page,
+                    totalPages,
+                    questions: listed.slice((page - 1) * TOPIC_PAGE_SIZE, page * TOPIC_PAGE_SIZE),
+                    totalQuestions: listed.length,
+                    difficultyCount,
+                    path: pathFor(page),
+                    prevPath: page > 1 ? pathFor(page - 1) : undefined,
+                    nextPath: page < totalPages ? pathFor(page + 1) : undefined,
+                    canonicalPath: duplicatesMain ? getTopicListingPath(examSlug, topicSlug, undefined, page) : pathFor(page)
+                });
+            }
+        }
+    }
+
+    return pages;
+}
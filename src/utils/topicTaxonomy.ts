@@ -0,0 +1,139 @@
+// Topic Taxonomy
+// Explicit mapping from learning topics (lessons) to the question topics and
+// categories they practise, loaded from src/data/topic-taxonomy.json.
+import { z } from 'astro/zod';
+import type { Question, TopicTaxonomy } from '../types';
+import { writeBuildReport } from './buildReport';
+import taxonomyData from '../data/topic-taxonomy.json';
+
+const names = z.array(z.string().min(1));
+
+export const topicTaxonomySchema = z.object({
+    aliases: z.record(z.string().min(1)),
+    lessons: z.record(z.object({
+        topics: names.optional(),
+        categories: names.optional()
+    }).strict())
+}).strict();
+
+/**
+ * Comparable form of a topic/category name: case, punctuation and "&" vs
+ * "and" don't matter ("Time & Work" = "time and work")
+ */
+export function normalizeTopicName(name: string): string {
+    return name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Validate the taxonomy; every alias must point at a topic some lesson uses
+ */
+export function parseTopicTaxonomy(data: unknown): TopicTaxonomy {
+    const parsed = topicTaxonomySchema.safeParse(data);
+    const issues = parsed.success
+        ? []
+        : parsed.error.issues.map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+    if (parsed.success) {
+        const lessonTopics = new Set(
+            Object.values(parsed.data.lessons).flatMap(lesson => lesson.topics || []).map(normalizeTopicName)
+        );
+        for (const [alias, topic] of Object.entries(parsed.data.aliases)) {
+            if (!lessonTopics.has(normalizeTopicName(topic))) {
+                issues.push(`  aliases.${alias}: "${topic}" is not a topic of any lesson`);
+            }
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid src/data/topic-taxonomy.json:\n${issues.join('\n')}`);
+    }
+    return parsed.data!;
+}
+
+const taxonomy = parseTopicTaxonomy(taxonomyData);
+
+const aliases = new Map(
+    Object.entries(taxonomy.aliases).map(([alias, topic]) => [normalizeTopicName(alias), normalizeTopicName(topic)])
+);
+
+/**
+ * Normalized topic name with aliases resolved
+ */
+export function canonicalTopic(topic: string): string {
+    const normalized = normalizeTopicName(topic);
+    return aliases.get(normalized) || normalized;
+}
+
+function append<T>(map: Map<string, T[]>, key: string, value: T) {
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(value);
+}
+
+/**
+ * Group questions by the lessons that practise them. Topic matches come
+ * before category matches; a question can belong to several lessons.
+ *
+ * Lessons with no questions and question topics with no lesson are warned
+ * about and listed in reports/topic-taxonomy.json.
+ */
+export function mapQuestionsToLessons(
+    lessons: Array<{ slug: string; title: string }>,
+    questions: Question[]
+): Map<string, Question[]> {
+    const lessonSlugs = new Set(lessons.map(lesson => lesson.slug));
+    const byTopic = new Map<string, string[]>();
+    const byCategory = new Map<string, string[]>();
+
+    for (const [slug, entry] of Object.entries(taxonomy.lessons)) {
+        if (!lessonSlugs.has(slug)) continue;
+        for (const topic of entry.topics || []) {
+            append(byTopic, canonicalTopic(topic), slug);
+        }
+        for (const category of entry.categories || []) {
+            append(byCategory, normalizeTopicName(category), slug);
+        }
+    }
+
+    const topicMatches = new Map<string, Question[]>();
+    const categoryMatches = new Map<string, Question[]>();
+    const topicsWithoutLesson: Record<string, number> = {};
+
+    for (const question of questions) {
+        const viaTopic = question.topic ? byTopic.get(canonicalTopic(question.topic)) || [] : [];
+        const viaCategory = (question.category ? byCategory.get(normalizeTopicName(question.category)) || [] : [])
+            .filter(slug => !viaTopic.includes(slug));
+
+        viaTopic.forEach(slug => append(topicMatches, slug, question));
+        viaCategory.forEach(slug => append(categoryMatches, slug, question));
+
+        if (viaTopic.length === 0 && viaCategory.length === 0) {
+            const topic = question.topic || question.category || '(none)';
+            topicsWithoutLesson[topic] = (topicsWithoutLesson[topic] || 0) + 1;
+        }
+    }
+
+    const result = new Map<string, Question[]>();
+    for (const lesson of lessons) {
+        result.set(lesson.slug, [...(topicMatches.get(lesson.slug) || []), ...(categoryMatches.get(lesson.slug) || [])]);
+    }
+
+    const lessonsWithoutQuestions = lessons.filter(lesson => result.get(lesson.slug)!.length === 0);
+    const missingFromTaxonomy = lessons.filter(lesson => !taxonomy.lessons[lesson.slug]).map(lesson => lesson.slug);
+
+    for (const lesson of lessonsWithoutQuestions) {
+        console.warn(`⚠ Lesson "${lesson.title}" (${lesson.slug}) has no mapped practice questions`);
+    }
+    for (const [topic, count] of Object.entries(topicsWithoutLesson)) {
+        console.warn(`⚠ Question topic "${topic}" (${count} questions) has no lesson in topic-taxonomy.json`);
+    }
+
+    writeBuildReport('topic-taxonomy', {
+        lessons: lessons.length,
+        lessonsWithoutQuestions: lessonsWithoutQuestions.map(lesson => lesson.slug),
+        missingFromTaxonomy,
+        topicsWithoutLesson,
+        questionsPerLesson: Object.fromEntries(Array.from(result, ([slug, matched]) => [slug, matched.length]))
+    });
+
+    return result;
+}
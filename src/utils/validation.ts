@@ -0,0 +1,724 @@
+// API Payload Validation & Normalization
+// Sits between the data fetcher and the pages: every question, course and topic
+// is normalized into the typed shapes in types.ts and then checked against a
+// schema. Records that can be fixed are repaired, the rest are rejected, and
+// both are listed in reports/validation-*.json instead of crashing the build.
+import { z } from 'astro/zod';
+import type {
+    Question,
+    QuestionOption,
+    ContentType,
+    RawQuestion,
+    LearningCourse,
+    LearningTopic
+} from '../types';
+import { writeBuildReport } from './buildReport';
+import { TRANSLATION_LOCALES } from './i18n';
+
+type RawRecord = Record<string, any>;
+
+export interface ValidationIssue {
+    id: string | number;
+    issues: string[];
+}
+
+export interface ValidationResult<T> {
+    valid: T[];
+    rejected: ValidationIssue[];
+    repaired: ValidationIssue[];
+}
+
+/**
+ * Check if a string is an image URL
+ */
+export function isImageUrl(text: string): boolean {
+    if (typeof text !== 'string') return false;
+    const lower = text.toLowerCase();
+    // Check for http/https URLs
+    if (lower.startsWith('http://') || lower.startsWith('https://')) return true;
+    // Check for common image extensions in the string
+    if (/\.(jpg|jpeg|png|gif|webp|svg|bmp)(\?|$)/i.test(lower)) return true;
+    // Check for cloudinary URLs
+    if (lower.includes('cloudinary.com') || lower.includes('res.cloudinary.com')) return true;
+    return false;
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+/** Oldest plausible paper year; anything earlier is a data entry error */
+const MIN_PAPER_YEAR = 1980;
+
+// ============================================================================
+// Schemas (the normalized shape every record must satisfy)
+// ============================================================================
+
+const isoDate = z.string().refine(value => !Number.isNaN(new Date(value).getTime()), 'invalid date');
+
+const optionSchema = z.object({
+    type: z.enum(['text', 'image']),
+    content: z.string().min(1)
+});
+
+const answerSchema = z.union([
+    z.string(),
+    z.number(),
+    z.array(z.union([z.string(), z.number()]))
+]);
+
+const paperSchema = z.object({
+    year: z.number().int().min(MIN_PAPER_YEAR).max(2100),
+    name: z.string().optional(),
+    shift: z.string().optional(),
+    date: isoDate.optional(),
+    position: z.number().int().positive().optional()
+});
+
+/**
+ * Translations keyed by locale; only translated locales are allowed
+ */
+const translationsSchema = <T extends z.ZodTypeAny>(translation: T) =>
+    z.record(translation).superRefine((translations, ctx) => {
+        for (const locale of Object.keys(translations)) {
+            if (!(TRANSLATION_LOCALES as readonly string[]).includes(locale)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [locale], message: `unsupported locale "${locale}"` });
+            }
+        }
+    });
+
+const questionTranslationSchema = z.object({
+    statement: z.string().min(1).optional(),
+    passage: z.string().optional(),
+    options: z.array(optionSchema).optional(),
+    explanation: z.string().optional()
+});
+
+export const questionSchema = z.object({
+    _id: z.string().optional(),
+    questionNumber: z.number().int().positive(),
+    statement: z.string().min(1),
+    statementType: z.enum(['text', 'image']),
+    passage: z.string().optional(),
+    type: z.string().min(1),
+    options: z.array(optionSchema).optional(),
+    answer: answerSchema.optional(),
+    explanation: z.string(),
+    exam: z.string().optional(),
+    subExam: z.string().optional(),
+    section: z.string().optional(),
+    difficulty: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    category: z.string().optional(),
+    topic: z.string().optional(),
+    paper: paperSchema.optional(),
+    translations: translationsSchema(questionTranslationSchema).optional(),
+    updatedAt: isoDate,
+    createdAt: isoDate
+}).superRefine((q, ctx) => {
+    const isChoice = q.type === 'MCQ' || q.type === 'Multiple Correct';
+    if (isChoice && (!q.options || q.options.length < 2)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `${q.type} needs at least 2 options` });
+    }
+});
+
+const headingSchema = z.object({
+    id: z.string().min(1),
+    text: z.string(),
+    level: z.number().int().min(1).max(6)
+});
+
+const topicTranslationSchema = z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    content: z.string().optional(),
+    headings: z.array(headingSchema).optional()
+});
+
+export const topicSchema = z.object({
+    _id: z.string().min(1),
+    title: z.string().min(1),
+    slug: z.string().regex(/^[a-z0-9-]+$/, 'slug must be lowercase letters, digits and dashes'),
+    content: z.string().optional(),
+    description: z.string().optional(),
+    headings: z.array(headingSchema).optional(),
+    isPublished: z.boolean(),
+    translations: translationsSchema(topicTranslationSchema).optional(),
+    updatedAt: z.string().optional()
+});
+
+const subjectSchema = z.object({
+    _id: z.string().min(1),
+    title: z.string().min(1),
+    slug: z.string().min(1),
+    description: z.string().optional(),
+    topics: z.array(z.object({ topic: topicSchema, order: z.number() })).optional()
+});
+
+export const courseSchema = z.object({
+    _id: z.string().min(1),
+    title: z.string().min(1),
+    slug: z.string().regex(/^[a-z0-9-]+$/, 'slug must be lowercase letters, digits and dashes'),
+    description: z.string().optional(),
+    thumbnail: z.string().optional(),
+    isPublished: z.boolean(),
+    subjects: z.array(subjectSchema).optional(),
+    updatedAt: z.string().optional()
+});
+
+// ============================================================================
+// Normalizers (turn known variant shapes into the schema shape)
+// ============================================================================
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asId = (value: unknown): string | undefined => {
+    if (typeof value === 'string' && value) return value;
+    // Mongo extended JSON ({ $oid }) from exports
+    if (value && typeof value === 'object' && typeof (value as RawRecord).$oid === 'string') {
+        return (value as RawRecord).$oid;
+    }
+    return undefined;
+};
+
+const contentTypeOf = (content: string, declared?: unknown): ContentType => {
+    if (declared === 'image' || isImageUrl(content)) return 'image';
+    return 'text';
+};
+
+function normalizeOptions(raw: unknown, repairs: string[]): QuestionOption[] | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (!Array.isArray(raw)) {
+        repairs.push('options was not an array, dropped');
+        return undefined;
+    }
+
+    const options: QuestionOption[] = [];
+    raw.forEach((opt, i) => {
+        // Legacy questions store options as plain strings
+        if (typeof opt === 'string') {
+            if (!opt.trim()) {
+                repairs.push(`option ${i + 1} was empty, dropped`);
+                return;
+            }
+            options.push({ type: contentTypeOf(opt), content: opt });
+            return;
+        }
+
+        const content = opt && typeof opt === 'object' ? (opt as RawRecord).content : undefined;
+        if (typeof content !== 'string' || !content.trim()) {
+            repairs.push(`option ${i + 1} had no content, dropped`);
+            return;
+        }
+
+        const declared = (opt as RawRecord).type;
+        const type = contentTypeOf(content, declared);
+        if (declared !== undefined && declared !== type) {
+            repairs.push(`option ${i + 1} type "${declared ?? 'missing'}" set to "${type}"`);
+        }
+        options.push({ type, content });
+    });
+
+    return options;
+}
+
+function normalizeAnswer(raw: unknown, questionType: string, repairs: string[]): Question['answer'] {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+
+    if (questionType === 'Integer' && typeof raw === 'string' && raw.trim() !== '' && Number.isFinite(Number(raw))) {
+        repairs.push('numeric string answer converted to number');
+        return Number(raw);
+    }
+
+    if (questionType === 'Multiple Correct' && !Array.isArray(raw)) {
+        repairs.push('single answer wrapped in an array for Multiple Correct');
+        return [raw as string | number];
+    }
+
+    return raw as Question['answer'];
+}
+
+function normalizeTags(raw: unknown, repairs: string[]): string[] | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw === 'string') {
+        repairs.push('tags string split into an array');
+        return raw.split(',').map(t => t.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(raw)) {
+        repairs.push('tags was not an array, dropped');
+        return undefined;
+    }
+    const tags = raw.filter((t): t is string => typeof t === 'string' && t.trim() !== '').map(t => t.trim());
+    if (tags.length !== raw.length) {
+        repairs.push('non-string or empty tags removed');
+    }
+    return tags;
+}
+
+function normalizeDifficulty(raw: unknown, repairs: string[]): string | undefined {
+    const value = asString(raw);
+    if (!value) return undefined;
+    const match = DIFFICULTIES.find(d => d.toLowerCase() === value.toLowerCase());
+    if (match && match !== value) {
+        repairs.push(`difficulty "${value}" normalized to "${match}"`);
+        return match;
+    }
+    return value;
+}
+
+const asPositiveInt = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+    return typeof number === 'number' && Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Paper provenance, either nested ({ paper: { year, name, shift, date, position } })
+ * or as the flat legacy fields (year, paperName, shift/slot)
+ */
+function normalizePaper(raw: RawQuestion, repairs: string[]): Question['paper'] {
+    const nested = raw.paper && typeof raw.paper === 'object' && !Array.isArray(raw.paper)
+        ? raw.paper as RawRecord
+        : undefined;
+    const source: RawRecord = nested || {
+        year: raw.year,
+        name: raw.paperName,
+        shift: raw.shift ?? raw.slot
+    };
+
+    const fields = {
+        name: asString(source.name ?? source.title),
+        shift: asString(source.shift ?? source.slot),
+        date: asString(source.date),
+        position: asPositiveInt(source.position ?? source.questionIndex)
+    };
+    if (source.year === undefined || source.year === null || source.year === '') {
+        if (Object.values(fields).some(value => value !== undefined)) {
+            repairs.push('paper without a year dropped');
+        }
+        return undefined;
+    }
+
+    const year = asPositiveInt(source.year);
+    if (year === undefined || year < MIN_PAPER_YEAR || year > new Date().getFullYear() + 1) {
+        repairs.push(`paper year "${source.year}" is not a valid year, paper dropped`);
+        return undefined;
+    }
+    if (typeof source.year === 'string') {
+        repairs.push('paper year string converted to number');
+    }
+    if (fields.date && Number.isNaN(new Date(fields.date).getTime())) {
+        repairs.push(`paper date "${fields.date}" is not a date, dropped`);
+        fields.date = undefined;
+    }
+
+    return { year, ...fields };
+}
+
+/**
+ * Normalize a `translations` object ({ <locale>: translation }). Unsupported
+ * locales and translations `normalize` can't use are dropped, so a broken
+ * translation never takes the original record down with it.
+ */
+function normalizeTranslations(
+    raw: unknown,
+    normalize: (translation: RawRecord, repairs: string[]) => RawRecord | undefined,
+    repairs: string[]
+): RawRecord | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        repairs.push('translations was not an object, dropped');
+        return undefined;
+    }
+
+    const translations: RawRecord = {};
+    for (const [locale, value] of Object.entries(raw as RawRecord)) {
+        if (!(TRANSLATION_LOCALES as readonly string[]).includes(locale)) {
+            repairs.push(`translation for unsupported locale "${locale}" dropped`);
+            continue;
+        }
+        const translationRepairs: string[] = [];
+        const translation = value && typeof value === 'object' && !Array.isArray(value)
+            ? normalize(value as RawRecord, translationRepairs)
+            : undefined;
+        repairs.push(...translationRepairs.map(repair => `${locale} translation: ${repair}`));
+        if (!translation) {
+            repairs.push(`${locale} translation unusable, dropped`);
+            continue;
+        }
+        translations[locale] = translation;
+    }
+
+    return Object.keys(translations).length > 0 ? translations : undefined;
+}
+
+/**
+ * Normalize a question translation against the normalized question: text
+ * statements must be translated, image statements are shared, and translated
+ * options must line up with the original ones for the answer key to hold
+ */
+function normalizeQuestionTranslation(
+    raw: RawRecord,
+    question: { statementType: ContentType; options?: QuestionOption[] },
+    repairs: string[]
+): RawRecord | undefined {
+    let statement = asString(raw.statement);
+    if (question.statementType === 'image' && statement) {
+        repairs.push('statement of an image question dropped');
+        statement = undefined;
+    }
+    if (question.statementType === 'text' && !statement) {
+        repairs.push('missing statement');
+        return undefined;
+    }
+
+    let options = normalizeOptions(raw.options, repairs);
+    if (options && options.length !== (question.options?.length ?? 0)) {
+        repairs.push(`${options.length} options for ${question.options?.length ?? 0} original options, dropped`);
+        options = undefined;
+    }
+
+    const translation = {
+        statement,
+        passage: asString(raw.passage),
+        options,
+        explanation: asString(raw.explanation)
+    };
+    return Object.values(translation).some(value => value !== undefined) ? translation : undefined;
+}
+
+/**
+ * Normalize one raw API question (repairs are appended to `repairs`)
+ */
+export function normalizeQuestion(raw: RawQuestion, repairs: string[]): RawRecord {
+    const statement = typeof raw.statement === 'string' ? raw.statement : '';
+    const type = asString(raw.type) || 'MCQ';
+    if (!asString(raw.type)) {
+        repairs.push('missing type defaulted to MCQ');
+    }
+
+    let createdAt = raw.createdAt;
+    let updatedAt = raw.updatedAt;
+    if (!updatedAt && createdAt) {
+        updatedAt = createdAt;
+        repairs.push('missing updatedAt set to createdAt');
+    }
+    if (!createdAt && updatedAt) {
+        createdAt = updatedAt;
+        repairs.push('missing createdAt set to updatedAt');
+    }
+
+    let explanation = raw.explanation;
+    if (typeof explanation !== 'string') {
+        explanation = '';
+        repairs.push('missing explanation set to empty');
+    }
+
+    const questionNumber = typeof raw.questionNumber === 'string' && /^\d+$/.test(raw.questionNumber)
+        ? Number(raw.questionNumber)
+        : raw.questionNumber;
+
+    const statementType = contentTypeOf(statement);
+    const options = normalizeOptions(raw.options, repairs);
+
+    return {
+        _id: asId(raw._id),
+        questionNumber,
+        statement: statement.trim(),
+        statementType,
+        passage: asString(raw.passage),
+        type,
+        options,
+        answer: normalizeAnswer(raw.answer, type, repairs),
+        explanation,
+        exam: asString(raw.exam),
+        subExam: asString(raw.subExam),
+        section: asString(raw.section),
+        difficulty: normalizeDifficulty(raw.difficulty, repairs),
+        tags: normalizeTags(raw.tags, repairs),
+        category: asString(raw.category),
+        topic: asString(raw.topic),
+        paper: normalizePaper(raw, repairs),
+        translations: normalizeTranslations(
+            raw.translations,
+            (translation, translationRepairs) =>
+                normalizeQuestionTranslation(translation, { statementType, options }, translationRepairs),
+            repairs
+        ),
+        updatedAt,
+        createdAt
+    };
+}
+
+/**
+ * Normalize a raw topic. Topics may arrive populated or as a bare id
+ * (unpopulated reference), in which case null is returned.
+ */
+export function normalizeTopic(raw: unknown, repairs: string[]): RawRecord | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const topic = raw as RawRecord;
+
+    if (typeof topic.isPublished !== 'boolean') {
+        repairs.push(`topic "${topic.slug}" missing isPublished, treated as unpublished`);
+    }
+
+    return {
+        _id: asId(topic._id),
+        title: asString(topic.title),
+        slug: asString(topic.slug),
+        content: typeof topic.content === 'string' ? topic.content : undefined,
+        description: asString(topic.description),
+        headings: Array.isArray(topic.headings) ? topic.headings : undefined,
+        isPublished: topic.isPublished === true,
+        translations: normalizeTranslations(
+            topic.translations,
+            (translation, translationRepairs) =>
+                normalizeTopicTranslation(translation, typeof topic.content === 'string' && topic.content.trim() !== '', translationRepairs),
+            repairs
+        ),
+        updatedAt: asString(topic.updatedAt)
+    };
+}
+
+/**
+ * Normalize a lesson translation; a lesson with content needs translated
+ * content too, or its translated page would be empty
+ */
+function normalizeTopicTranslation(raw: RawRecord, hasContent: boolean, repairs: string[]): RawRecord | undefined {
+    const title = asString(raw.title);
+    const content = typeof raw.content === 'string' && raw.content.trim() ? raw.content : undefined;
+    if (!title) {
+        repairs.push('missing title');
+        return undefined;
+    }
+    if (hasContent && !content) {
+        repairs.push('missing content');
+        return undefined;
+    }
+    return {
+        title,
+        description: asString(raw.description),
+        content,
+        headings: Array.isArray(raw.headings) ? raw.headings : undefined
+    };
+}
+
+/**
+ * Normalize a subject's topic list. The API returns either
+ * `{ topic, order }` wrappers or bare topic objects. Topics that still don't
+ * match the schema are dropped here, so one bad lesson doesn't reject the
+ * whole course.
+ */
+function normalizeSubjectTopics(raw: unknown, repairs: string[]): { topic: RawRecord; order: number }[] | undefined {
+    if (!Array.isArray(raw)) return undefined;
+
+    const topics: { topic: RawRecord; order: number }[] = [];
+    raw.forEach((item, index) => {
+        const isWrapper = item && typeof item === 'object' && 'topic' in item;
+        const topic = normalizeTopic(isWrapper ? item.topic : item, repairs);
+        if (!topic) {
+            repairs.push(`unpopulated topic at position ${index + 1} dropped`);
+            return;
+        }
+        const parsed = topicSchema.safeParse(topic);
+        if (!parsed.success) {
+            repairs.push(`topic at position ${index + 1} dropped: ${formatZodIssues(parsed.error).join('; ')}`);
+            return;
+        }
+        const order = isWrapper && typeof item.order === 'number' ? item.order : index;
+        topics.push({ topic, order });
+    });
+
+    return topics.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Normalize a raw course. `subjects` comes either as `{ subject, order }`
+ * wrappers or as bare subject objects; both become a plain ordered array.
+ */
+export function normalizeCourse(raw: RawRecord, repairs: string[]): RawRecord {
+    const subjects: { subject: RawRecord; order: number }[] = [];
+
+    if (Array.isArray(raw.subjects)) {
+        raw.subjects.forEach((item: any, index: number) => {
+            const isWrapper = item && typeof item === 'object' && 'subject' in item;
+            const subject = isWrapper ? item.subject : item;
+            if (!subject || typeof subject !== 'object') {
+                repairs.push(`unpopulated subject at position ${index + 1} dropped`);
+                return;
+            }
+            subjects.push({
+                order: isWrapper && typeof item.order === 'number' ? item.order : index,
+                subject: {
+                    _id: asId(subject._id),
+                    title: asString(subject.title),
+                    slug: asString(subject.slug),
+                    description: asString(subject.description),
+                    topics: normalizeSubjectTopics(subject.topics, repairs)
+                }
+            });
+        });
+    }
+
+    return {
+        _id: asId(raw._id),
+        title: asString(raw.title),
+        slug: asString(raw.slug),
+        description: asString(raw.description),
+        thumbnail: asString(raw.thumbnail),
+        isPublished: raw.isPublished !== false,
+        subjects: Array.isArray(raw.subjects)
+            ? subjects.sort((a, b) => a.order - b.order).map(s => s.subject)
+            : undefined,
+        updatedAt: asString(raw.updatedAt)
+    };
+}
+
+// ============================================================================
+// Validation entry points
+// ============================================================================
+
+const formatZodIssues = (error: z.ZodError): string[] =>
+    error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+/**
+ * Normalize and validate a batch of records of one kind
+ */
+function validateRecords<T>(
+    records: unknown[],
+    schema: z.ZodType<any>,
+    normalize: (raw: RawRecord, repairs: string[]) => RawRecord | null,
+    getId: (raw: RawRecord, index: number) => string | number
+): ValidationResult<T> {
+    const result: ValidationResult<T> = { valid: [], rejected: [], repaired: [] };
+
+    records.forEach((raw, index) => {
+        if (!raw || typeof raw !== 'object') {
+            result.rejected.push({ id: `#${index}`, issues: ['not an object'] });
+            return;
+        }
+
+        const id = getId(raw as RawRecord, index);
+        const repairs: string[] = [];
+        const normalized = normalize(raw as RawRecord, repairs);
+        const parsed = schema.safeParse(normalized);
+
+        if (!parsed.success) {
+            result.rejected.push({ id, issues: formatZodIssues(parsed.error) });
+            return;
+        }
+
+        if (repairs.length > 0) {
+            result.repaired.push({ id, issues: repairs });
+        }
+        result.valid.push(parsed.data as T);
+    });
+
+    return result;
+}
+
+function logSummary(kind: string, result: ValidationResult<unknown>, reportFile: string) {
+    const { valid, rejected, repaired } = result;
+    console.log(`🧪 Validated ${kind}: ${valid.length} valid, ${repaired.length} repaired, ${rejected.length} rejected`);
+    if (rejected.length > 0 || repaired.length > 0) {
+        console.log(`  → Details: ${reportFile}`);
+    }
+}
+
+/**
+ * Validate and normalize questions from the API.
+ * Duplicate questionNumbers are rejected (the first occurrence wins).
+ */
+export function validateQuestions(rawQuestions: RawQuestion[]): Question[] {
+    const result = validateRecords<Question>(
+        rawQuestions,
+        questionSchema,
+        normalizeQuestion,
+        (raw, index) => raw.questionNumber ?? asId(raw._id) ?? `#${index}`
+    );
+
+    const seen = new Set<number>();
+    result.valid = result.valid.filter(q => {
+        if (seen.has(q.questionNumber)) {
+            result.rejected.push({ id: q.questionNumber, issues: [`duplicate questionNumber (_id ${q._id ?? 'unknown'})`] });
+            return false;
+        }
+        seen.add(q.questionNumber);
+        return true;
+    });
+
+    const reportFile = writeBuildReport('validation-questions', {
+        total: rawQuestions.length,
+        valid: result.valid.length,
+        rejected: result.rejected,
+        repaired: result.repaired
+    });
+    logSummary('questions', result, reportFile);
+
+    return result.valid;
+}
+
+/**
+ * Validate and normalize learning courses (including nested subjects/topics)
+ */
+export function validateCourses(rawCourses: RawRecord[]): LearningCourse[] {
+    const result = validateRecords<LearningCourse>(
+        rawCourses,
+        courseSchema,
+        normalizeCourse,
+        (raw, index) => asId(raw._id) ?? raw.slug ?? `#${index}`
+    );
+
+    const reportFile = writeBuildReport('validation-courses', {
+        total: rawCourses.length,
+        valid: result.valid.length,
+        rejected: result.rejected,
+        repaired: result.repaired
+    });
+    logSummary('courses', result, reportFile);
+
+    return result.valid;
+}
+
+/**
+ * Validate and normalize standalone learning topics
+ */
+export function validateTopics(rawTopics: RawRecord[]): LearningTopic[] {
+    const result = validateRecords<LearningTopic>(
+        rawTopics,
+        topicSchema,
+        normalizeTopic,
+        (raw, index) => asId(raw._id) ?? raw.slug ?? `#${index}`
+    );
+
+    const reportFile = writeBuildReport('validation-topics', {
+        total: rawTopics.length,
+        valid: result.valid.length,
+        rejected: result.rejected,
+        repaired: result.repaired
+    });
+    logSummary('topics', result, reportFile);
+
+    return result.valid;
+}
+
+/**
+ * Validate a single course fetched on its own (issues go to the console,
+ * not the batch report). Returns null when the course is rejected.
+ */
+export function validateCourse(rawCourse: RawRecord): LearningCourse | null {
+    const result = validateRecords<LearningCourse>([rawCourse], courseSchema, normalizeCourse, raw => raw.slug ?? 'course');
+    for (const { id, issues } of result.rejected) {
+        console.warn(`  ✗ Rejected course ${id}: ${issues.join('; ')}`);
+    }
+    return result.valid[0] ?? null;
+}
+
+/**
+ * Validate a single topic fetched on its own. Returns null when rejected.
+ */
+export function validateTopic(rawTopic: RawRecord): LearningTopic | null {
+    const result = validateRecords<LearningTopic>([rawTopic], topicSchema, normalizeTopic, raw => raw.slug ?? 'topic');
+    for (const { id, issues } of result.rejected) {
+        console.warn(`  ✗ Rejected topic ${id}: ${issues.join('; ')}`);
+    }
+    return result.valid[0] ?? null;
+}